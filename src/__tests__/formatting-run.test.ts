@@ -5,6 +5,7 @@ import {
     formatMarkdownSelection,
     toReplaceLinksSettings,
 } from "../formatting-run"
+import { getIgnoreRegionRanges } from "../markdown-segments"
 import { buildCandidateTrieForTest } from "../replace-links/__tests__/test-helpers"
 import { DEFAULT_SETTINGS } from "../settings/settings-info"
 
@@ -20,6 +21,12 @@ describe("toReplaceLinksSettings", () => {
             removeAliasInDirs: ["archive"],
             ignoreHeadings: true,
             ignoreMarkdownTables: true,
+            ignoreTerms: ["Go"],
+            linkFirstOccurrenceOnly: true,
+            linkFirstOccurrencePerSection: true,
+            minCandidateLength: 3,
+            minCjkCandidateLength: 2,
+            stopWordLanguages: ["en"],
         }, "pages")).toEqual({
             proximityBasedLinking: false,
             baseDir: "pages",
@@ -30,6 +37,12 @@ describe("toReplaceLinksSettings", () => {
             removeAliasInDirs: ["archive"],
             ignoreHeadings: true,
             ignoreMarkdownTables: true,
+            ignoreTerms: ["Go"],
+            linkFirstOccurrenceOnly: true,
+            linkFirstOccurrencePerSection: true,
+            minCandidateLength: 3,
+            minCjkCandidateLength: 2,
+            stopWordLanguages: ["en"],
         })
     })
 })
@@ -144,6 +157,58 @@ describe("formatMarkdownBody", () => {
 
         expect(result).toBe("[[notes/TypeScript|TypeScript]]")
     })
+
+    it("leaves ignore regions untouched by every formatting step", () => {
+        const { candidateMap, trie } = buildCandidateTrieForTest({
+            files: [{ path: "notes/TypeScript" }],
+            settings: {
+                scoped: false,
+                baseDir: undefined,
+                ignoreCase: true,
+            },
+        })
+        const ignored = [
+            "<!-- automatic-linker:off -->",
+            "TypeScript https://github.com/openai/openai/issues/1 https://example.com",
+            "<!-- automatic-linker:on -->",
+            "TypeScript <!-- automatic-linker:ignore-line -->",
+        ].join("\n")
+
+        const result = formatMarkdownBody({
+            body: `${ignored}\nTypeScript https://example.com`,
+            filePath: "current-file.md",
+            settings: {
+                ...DEFAULT_SETTINGS,
+                formatGitHubURLs: true,
+                replaceUrlWithTitle: true,
+                ignoreCase: true,
+            },
+            candidateIndex: { candidateMap, trie },
+            urlTitleMap: new Map([["https://example.com", "Example Title"]]),
+        })
+
+        expect(result).toBe(
+            `${ignored}\n[[notes/TypeScript|TypeScript]] [Example Title](https://example.com)`,
+        )
+    })
+
+    it("skips cached titles of domains the note ignores", () => {
+        const result = formatMarkdownBody({
+            body: "https://example.com https://internal.example.org/page",
+            filePath: "current-file.md",
+            settings: {
+                ...DEFAULT_SETTINGS,
+                replaceUrlWithTitle: true,
+                replaceUrlWithTitleIgnoreDomains: ["example.org"],
+            },
+            urlTitleMap: new Map([
+                ["https://example.com", "Example"],
+                ["https://internal.example.org/page", "Internal"],
+            ]),
+        })
+
+        expect(result).toBe("[Example](https://example.com) https://internal.example.org/page")
+    })
 })
 
 describe("formatMarkdownSelection", () => {
@@ -205,4 +270,50 @@ describe("formatMarkdownSelection", () => {
 
         expect(result).toBe("linear://workspace/issue/ACME-123")
     })
+
+    it("leaves the parts of the selection inside ignore regions unchanged", () => {
+        const { candidateMap, trie } = buildCandidateTrieForTest({
+            files: [{ path: "notes/TypeScript" }],
+            settings: {
+                scoped: false,
+                baseDir: undefined,
+                ignoreCase: true,
+            },
+        })
+        const document = "<!-- automatic-linker:off -->\nTypeScript\n<!-- automatic-linker:on -->\nTypeScript"
+        const selectionStart = document.indexOf("TypeScript")
+        const body = document.slice(selectionStart)
+
+        const result = formatMarkdownSelection({
+            body,
+            ignoredRanges: getIgnoreRegionRanges(document, selectionStart, document.length),
+            filePath: "current-file.md",
+            settings: { ...DEFAULT_SETTINGS, ignoreCase: true },
+            candidateIndex: { candidateMap, trie },
+        })
+
+        expect(result).toBe("TypeScript\n<!-- automatic-linker:on -->\n[[notes/TypeScript|TypeScript]]")
+    })
+
+    it("replaces URLs in the selection with fetched titles", () => {
+        const settings = {
+            ...DEFAULT_SETTINGS,
+            replaceUrlWithTitle: true,
+        }
+        const urlTitleMap = new Map([["https://example.com", "Example"]])
+
+        expect(formatMarkdownSelection({
+            body: "see https://example.com",
+            filePath: "current-file.md",
+            settings,
+            urlTitleMap,
+        })).toBe("see [Example](https://example.com)")
+        expect(formatMarkdownSelection({
+            body: "see https://example.com",
+            filePath: "current-file.md",
+            frontmatter: { "automatic-linker-disable-url-title": true },
+            settings,
+            urlTitleMap,
+        })).toBe("see https://example.com")
+    })
 })
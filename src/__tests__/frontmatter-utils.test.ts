@@ -1,5 +1,10 @@
 import { describe, expect, it } from "vitest"
-import { isUrlTitleReplacementOff } from "../frontmatter-utils"
+import {
+    getFrontmatterSettingOverrides,
+    getIgnoredTerms,
+    getMinLengthOverride,
+    isUrlTitleReplacementOff,
+} from "../frontmatter-utils"
 
 describe("frontmatter utils", () => {
     it("detects URL title replacement opt-out", () => {
@@ -12,3 +17,103 @@ describe("frontmatter utils", () => {
         expect(isUrlTitleReplacementOff(undefined)).toBe(false)
     })
 })
+
+describe("getFrontmatterSettingOverrides", () => {
+    it("returns no overrides when the object is absent", () => {
+        expect(getFrontmatterSettingOverrides({ tags: ["a"] })).toEqual({
+            overrides: {},
+            errors: [],
+        })
+    })
+
+    it("keeps catalog settings and reports unknown or mistyped keys", () => {
+        expect(getFrontmatterSettingOverrides({
+            "automatic-linker": {
+                ignoreHeadings: true,
+                ignoreTerms: ["people"],
+                linkFirstOccurrenceOnly: "yes",
+                ignoreHeading: true,
+            },
+        })).toEqual({
+            overrides: {
+                ignoreHeadings: true,
+                ignoreTerms: ["people"],
+            },
+            errors: [
+                "automatic-linker: \"linkFirstOccurrenceOnly\" must be a boolean, got string",
+                "automatic-linker: unknown setting \"ignoreHeading\"",
+            ],
+        })
+    })
+
+    it("rejects AI settings so a note cannot redirect the API key", () => {
+        expect(getFrontmatterSettingOverrides({
+            "automatic-linker": {
+                aiEndpoint: "https://attacker.example.com/v1",
+                aiProvider: "ollama",
+            },
+        })).toEqual({
+            overrides: {},
+            errors: [
+                "automatic-linker: \"aiEndpoint\" can only be set globally",
+                "automatic-linker: \"aiProvider\" can only be set globally",
+            ],
+        })
+    })
+
+    it("rejects settings that affect the link index", () => {
+        expect(getFrontmatterSettingOverrides({
+            "automatic-linker": { ignoreCase: false },
+        }).errors).toEqual([
+            "automatic-linker: \"ignoreCase\" affects the link index and can only be set globally",
+        ])
+    })
+
+    it("rejects regular expressions so a note cannot run arbitrary patterns", () => {
+        expect(getFrontmatterSettingOverrides({
+            "automatic-linker": {
+                urlFormatterRules: [{ host: "example.com", path: "/(?<id>.*)", template: "[[{id}]]" }],
+                ignoreTerms: ["people", "/(a+)+$/"],
+                ignoreHeadings: true,
+            },
+        })).toEqual({
+            overrides: { ignoreHeadings: true },
+            errors: [
+                "automatic-linker: \"urlFormatterRules\" with regular expressions can only be set globally or in folder profiles",
+                "automatic-linker: \"ignoreTerms\" with regular expressions can only be set globally or in folder profiles",
+            ],
+        })
+        expect(getFrontmatterSettingOverrides({
+            "automatic-linker": { ignoreTerms: ["people"] },
+        })).toEqual({ overrides: { ignoreTerms: ["people"] }, errors: [] })
+    })
+
+    it("reports a value that is not an object", () => {
+        expect(getFrontmatterSettingOverrides({ "automatic-linker": true }).errors).toEqual([
+            "automatic-linker: expected an object of settings, got boolean",
+        ])
+    })
+})
+
+describe("getIgnoredTerms", () => {
+    it("reads a list or a single term", () => {
+        expect(getIgnoredTerms({ "automatic-linker-ignore-terms": ["Go", 1, "UI"] }))
+            .toEqual(["Go", "UI"])
+        expect(getIgnoredTerms({ "automatic-linker-ignore-terms": "Go" })).toEqual(["Go"])
+        expect(getIgnoredTerms(undefined)).toEqual([])
+    })
+
+    it("drops regular expressions", () => {
+        expect(getIgnoredTerms({ "automatic-linker-ignore-terms": ["Go", "/v\\d+/"] })).toEqual(["Go"])
+        expect(getIgnoredTerms({ "automatic-linker-ignore-terms": "/(a+)+$/" })).toEqual([])
+    })
+})
+
+describe("getMinLengthOverride", () => {
+    it("reads non-negative integers only", () => {
+        expect(getMinLengthOverride({ "automatic-linker-min-length": 2 })).toBe(2)
+        expect(getMinLengthOverride({ "automatic-linker-min-length": "2" })).toBeUndefined()
+        expect(getMinLengthOverride({ "automatic-linker-min-length": -1 })).toBeUndefined()
+        expect(getMinLengthOverride(undefined)).toBeUndefined()
+    })
+})
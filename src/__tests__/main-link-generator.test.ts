@@ -13,8 +13,11 @@ class MockTFile {
 vi.mock("obsidian", () => ({
     App: class {},
     Editor: class {},
+    FuzzySuggestModal: class {},
+    ItemView: class {},
     getFrontMatterInfo: () => ({ contentStart: 0 }),
     MarkdownView: class {},
+    Modal: class {},
     Notice: class {},
     parseFrontMatterAliases: () => [],
     Plugin: class {
@@ -25,7 +28,7 @@ vi.mock("obsidian", () => ({
         }
     },
     PluginSettingTab: class {},
-    request: async () => ({}),
+    requestUrl: async () => ({}),
     Setting: class {
         setName() { return this }
         setDesc() { return this }
@@ -77,7 +80,7 @@ describe("AutomaticLinkerPlugin link generator", () => {
         expect(result).toBe("| [[notes/foo\\|bar]] | x |\n| --- | --- |\n")
     })
 
-    it("keeps selection formatting to link replacement only", async () => {
+    it("formats selections with link replacement and cached URL titles", async () => {
         const { default: AutomaticLinkerPlugin } = await import("../main")
         const settings = {
             scoped: false,
@@ -95,10 +98,16 @@ describe("AutomaticLinkerPlugin link generator", () => {
                 activeEditor: {
                     editor: {
                         getSelection: vi.fn(() => "TypeScript https://github.com/openai/openai/issues/1"),
+                        getValue: vi.fn(() => "TypeScript https://github.com/openai/openai/issues/1"),
+                        getCursor: vi.fn(() => ({ line: 0, ch: 0 })),
+                        posToOffset: vi.fn(() => 0),
                         replaceSelection,
                     },
                 },
             },
+            metadataCache: {
+                getFileCache: vi.fn(() => null),
+            },
             vault: {
                 getConfig: vi.fn(() => "pages"),
                 getAbstractFileByPath: vi.fn((path: string) => {
@@ -121,11 +130,16 @@ describe("AutomaticLinkerPlugin link generator", () => {
         }
         ;(plugin as unknown as { trie: typeof trie }).trie = trie
         ;(plugin as unknown as { candidateMap: typeof candidateMap }).candidateMap = candidateMap
+        const issueUrl = "https://github.com/openai/openai/issues/1"
+        Object.assign(plugin as unknown as object, {
+            urlTitleCache: { [issueUrl]: { title: "Issue title", fetchedAt: Date.now() } },
+            urlTitleMap: new Map([[issueUrl, "Issue title"]]),
+        })
 
         await plugin.mofifyLinksSelection()
 
         expect(replaceSelection).toHaveBeenCalledWith(
-            "[[notes/TypeScript|TypeScript]] https://github.com/openai/openai/issues/1",
+            `[[notes/TypeScript|TypeScript]] [Issue title](${issueUrl})`,
         )
     })
 })
@@ -1,7 +1,7 @@
 import { afterEach, describe, expect, it, vi } from "vitest"
 import { DEFAULT_SETTINGS } from "../settings/settings-info"
 
-const requestMock = vi.hoisted(() => vi.fn())
+const requestUrlMock = vi.hoisted(() => vi.fn())
 
 class MockTFile {
     path: string
@@ -14,11 +14,14 @@ class MockTFile {
 vi.mock("obsidian", () => ({
     App: class {},
     Editor: class {},
+    FuzzySuggestModal: class {},
+    ItemView: class {},
     getFrontMatterInfo: (content: string) => {
         const frontmatter = content.match(/^---\n[\s\S]*?\n---\n?/)
         return { contentStart: frontmatter?.[0].length ?? 0 }
     },
     MarkdownView: class {},
+    Modal: class {},
     Notice: class {},
     parseFrontMatterAliases: () => [],
     Plugin: class {
@@ -29,7 +32,7 @@ vi.mock("obsidian", () => ({
         }
     },
     PluginSettingTab: class {},
-    request: requestMock,
+    requestUrl: requestUrlMock,
     Setting: class {
         setName() { return this }
         setDesc() { return this }
@@ -43,7 +46,7 @@ vi.mock("obsidian", () => ({
 
 describe("AutomaticLinkerPlugin URL title frontmatter opt-out", () => {
     afterEach(() => {
-        requestMock.mockReset()
+        requestUrlMock.mockReset()
     })
 
     it("does not fetch URL titles when disabled in active file frontmatter", async () => {
@@ -74,6 +77,6 @@ describe("AutomaticLinkerPlugin URL title frontmatter opt-out", () => {
 
         await plugin.buildUrlTitleMap()
 
-        expect(requestMock).not.toHaveBeenCalled()
+        expect(requestUrlMock).not.toHaveBeenCalled()
     })
 })
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest"
-import { mapMarkdownProse, segmentMarkdown } from "../markdown-segments"
+import { getIgnoreRegionRanges, mapMarkdownProse, segmentMarkdown } from "../markdown-segments"
 
 describe("segmentMarkdown", () => {
     it("round-trips prose and protected inline code", () => {
@@ -79,6 +79,65 @@ describe("segmentMarkdown", () => {
             },
         ])
     })
+
+    it("protects regions between ignore markers, up to the end when unclosed", () => {
+        const text = "a\n<!-- automatic-linker:off -->\nb\n<!-- automatic-linker:on -->\nc\n<!--automatic-linker:off-->\nd"
+        const segments = segmentMarkdown(text)
+
+        expect(segments.map(segment => ({
+            kind: segment.kind,
+            protectedKind: segment.protectedKind,
+            text: segment.text,
+        }))).toEqual([
+            { kind: "prose", protectedKind: undefined, text: "a\n" },
+            {
+                kind: "protected",
+                protectedKind: "ignore-region",
+                text: "<!-- automatic-linker:off -->\nb\n<!-- automatic-linker:on -->",
+            },
+            { kind: "prose", protectedKind: undefined, text: "\nc\n" },
+            { kind: "protected", protectedKind: "ignore-region", text: "<!--automatic-linker:off-->\nd" },
+        ])
+    })
+
+    it("protects lines with an ignore-line marker", () => {
+        const text = "a\nb [[c]] <!-- automatic-linker:ignore-line -->\nd"
+        const segments = segmentMarkdown(text)
+
+        expect(segments.map(segment => ({
+            kind: segment.kind,
+            protectedKind: segment.protectedKind,
+            text: segment.text,
+        }))).toEqual([
+            { kind: "prose", protectedKind: undefined, text: "a\n" },
+            {
+                kind: "protected",
+                protectedKind: "ignore-region",
+                text: "b [[c]] <!-- automatic-linker:ignore-line -->",
+            },
+            { kind: "prose", protectedKind: undefined, text: "\nd" },
+        ])
+    })
+
+    it("ignores markers inside fenced code blocks", () => {
+        const text = "```\n<!-- automatic-linker:off -->\n```\nafter"
+        const segments = segmentMarkdown(text)
+
+        expect(segments.map(segment => segment.protectedKind)).toEqual(["fenced-code", undefined])
+    })
+})
+
+describe("getIgnoreRegionRanges", () => {
+    it("clips the regions overlapping a span to it", () => {
+        const text = "a\n<!-- automatic-linker:off -->\nb c\n<!-- automatic-linker:on -->\nd"
+        const start = text.indexOf("b")
+        const end = text.indexOf("d") + 1
+
+        expect(getIgnoreRegionRanges(text, start, end)).toEqual([
+            { start: 0, end: text.indexOf("-->", start) + 3 - start },
+        ])
+        expect(getIgnoreRegionRanges(text, end - 1, end)).toEqual([])
+    })
 })
 
 describe("mapMarkdownProse", () => {
@@ -1,5 +1,5 @@
 import { describe, expect, it, vi } from "vitest"
-import { runAsyncSafely, sleep } from "../plugin-compat"
+import { ignoreAlreadyExists, runAsyncSafely, sleep } from "../plugin-compat"
 
 describe("plugin-compat", () => {
     it("sleep uses the provided scheduler", async () => {
@@ -31,4 +31,10 @@ describe("plugin-compat", () => {
             expect(onError).toHaveBeenCalledTimes(1)
         })
     })
+
+    it("ignoreAlreadyExists only swallows errors about existing files", async () => {
+        await expect(ignoreAlreadyExists(Promise.resolve("file"))).resolves.toBe("file")
+        await expect(ignoreAlreadyExists(Promise.reject(new Error("File already exists.")))).resolves.toBeUndefined()
+        await expect(ignoreAlreadyExists(Promise.reject(new Error("boom")))).rejects.toThrow("boom")
+    })
 })
@@ -1,6 +1,15 @@
 import { describe, expect, it } from "vitest"
 import { PathAndAliases } from "../path-and-aliases.types"
-import { buildCandidateTrie, buildTrie, getTopLevelDirectoryName } from "../trie"
+import { buildFallbackIndex } from "../replace-links/candidate-scanner"
+import {
+    addFileToCandidateTrie,
+    buildCandidateTrie,
+    buildTrie,
+    getTopLevelDirectoryName,
+    removeFileFromCandidateTrie,
+    removeFromTrie,
+    renameFileInCandidateTrie,
+} from "../trie"
 
 describe("getTopLevelDirectoryName", () => {
     it("returns the first directory after the baseDir", () => {
@@ -72,3 +81,106 @@ describe("buildCandidateTrie", () => {
         expect(meetingData?.candidates.map(c => c.canonical)).toContain("private/meeting")
     })
 })
+
+describe("removeFromTrie", () => {
+    it("prunes branches that no longer lead to a candidate", () => {
+        const trie = buildTrie(["hello", "help"])
+
+        removeFromTrie(trie, "hello")
+
+        const l = trie.children.get("h")?.children.get("e")?.children.get("l")
+        expect(l?.children.has("l")).toBe(false)
+        expect(l?.children.get("p")?.candidate).toBe("help")
+
+        removeFromTrie(trie, "help")
+
+        expect(trie.children.size).toBe(0)
+    })
+
+    it("keeps prefixes that are candidates themselves", () => {
+        const trie = buildTrie(["go", "golang"])
+
+        removeFromTrie(trie, "golang")
+
+        const o = trie.children.get("g")?.children.get("o")
+        expect(o?.candidate).toBe("go")
+        expect(o?.children.size).toBe(0)
+    })
+})
+
+describe("incremental candidate trie updates", () => {
+    const files: PathAndAliases[] = [
+        { path: "pages/work/meeting", scoped: false, aliases: ["standup"] },
+        { path: "pages/private/meeting", scoped: false, aliases: [] },
+        { path: "pages/TypeScript", scoped: false, aliases: ["TS"] },
+    ]
+
+    it("adding files one by one matches a full build", () => {
+        const sortedFiles = files.slice().sort((a, b) => b.path.length - a.path.length)
+        const full = buildCandidateTrie(sortedFiles, "pages", true)
+        const incremental = buildCandidateTrie([], "pages", true)
+
+        for (const file of files) {
+            addFileToCandidateTrie(incremental.trie, incremental.candidateMap, file, "pages", true)
+        }
+
+        expect(incremental.candidateMap).toEqual(full.candidateMap)
+        expect(incremental.trie).toEqual(full.trie)
+    })
+
+    it("removing a file drops its keys and trie branches", () => {
+        const { candidateMap, trie } = buildCandidateTrie(files, "pages", true)
+
+        removeFileFromCandidateTrie(trie, candidateMap, files[2], "pages", true)
+
+        expect(candidateMap.has("pages/TypeScript")).toBe(false)
+        expect(candidateMap.has("TypeScript")).toBe(false)
+        expect(candidateMap.has("ts")).toBe(false)
+        expect(trie.children.has("t")).toBe(false)
+        expect(candidateMap.get("meeting")?.candidates.map(c => c.canonical)).toEqual([
+            "pages/work/meeting",
+            "pages/private/meeting",
+        ])
+    })
+
+    it("removing one of several candidates keeps the shared key", () => {
+        const { candidateMap, trie } = buildCandidateTrie(files, "pages", true)
+
+        removeFileFromCandidateTrie(trie, candidateMap, files[1], "pages", true)
+
+        expect(candidateMap.get("meeting")?.candidates.map(c => c.canonical)).toEqual([
+            "pages/work/meeting",
+        ])
+        expect(trie.children.get("m")).toBeDefined()
+    })
+
+    it("renames a file", () => {
+        const { candidateMap, trie } = buildCandidateTrie(files, "pages", true)
+
+        renameFileInCandidateTrie(
+            trie,
+            candidateMap,
+            files[2],
+            { ...files[2], path: "pages/JavaScript" },
+            "pages",
+            true,
+        )
+
+        expect(candidateMap.has("TypeScript")).toBe(false)
+        expect(candidateMap.get("JavaScript")?.candidates[0].canonical).toBe("pages/JavaScript")
+        expect(candidateMap.get("TS")?.candidates[0].canonical).toBe("pages/JavaScript|TS")
+        expect(trie.children.get("j")?.children.get("a")).toBeDefined()
+    })
+
+    it("invalidates the cached fallback index", () => {
+        const { candidateMap, trie } = buildCandidateTrie(files, "pages", true)
+        const before = buildFallbackIndex(candidateMap, true)
+        expect(before.has("typescript")).toBe(true)
+
+        removeFileFromCandidateTrie(trie, candidateMap, files[2], "pages", true)
+
+        const after = buildFallbackIndex(candidateMap, true)
+        expect(after).not.toBe(before)
+        expect(after.has("typescript")).toBe(false)
+    })
+})
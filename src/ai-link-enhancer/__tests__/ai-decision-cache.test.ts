@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest"
+import {
+    AIDecisionCache,
+    isNoteUnchangedSinceLastRun,
+    moveNoteDecisions,
+    recordNoteDecisions,
+} from "../ai-decision-cache"
+
+describe("AI decision cache", () => {
+    it("recognizes notes unchanged since their decisions were recorded", () => {
+        const cache: AIDecisionCache = {}
+        recordNoteDecisions(cache, "notes/a.md", "The [[work/meeting|meeting]].", { key: "work/meeting" })
+
+        expect(cache["notes/a.md"].decisions).toEqual({ key: "work/meeting" })
+        expect(isNoteUnchangedSinceLastRun(cache, "notes/a.md", "The [[work/meeting|meeting]].")).toBe(true)
+        expect(isNoteUnchangedSinceLastRun(cache, "notes/a.md", "The [[work/meeting|meeting]]!")).toBe(false)
+        expect(isNoteUnchangedSinceLastRun(cache, "notes/b.md", "The [[work/meeting|meeting]].")).toBe(false)
+    })
+
+    it("moves the decisions of renamed notes and drops those of deleted notes", () => {
+        const cache: AIDecisionCache = {}
+        recordNoteDecisions(cache, "notes/a.md", "A", { key: "work/meeting" })
+        recordNoteDecisions(cache, "notes/b.md", "B", {})
+
+        expect(moveNoteDecisions(cache, "notes/a.md", "archive/a.md")).toBe(true)
+        expect(isNoteUnchangedSinceLastRun(cache, "archive/a.md", "A")).toBe(true)
+        expect(cache["archive/a.md"].decisions).toEqual({ key: "work/meeting" })
+
+        expect(moveNoteDecisions(cache, "notes/b.md", null)).toBe(true)
+        expect(moveNoteDecisions(cache, "notes/c.md", null)).toBe(false)
+        expect(Object.keys(cache)).toEqual(["archive/a.md"])
+    })
+})
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest"
+import { getAIReportFileName, isAIReport, renderAIEnhancementReport } from "../ai-enhancement-report"
+
+describe("renderAIEnhancementReport", () => {
+    const startedAt = new Date(2026, 9, 19, 9, 5, 7)
+
+    it("lists the changed lines of every note", () => {
+        const report = renderAIEnhancementReport({
+            scope: "projects",
+            startedAt,
+            changes: [{
+                path: "projects/plan.md",
+                before: "# Plan\nThe meeting at work.\nUnchanged line.\n",
+                after: "# Plan\nThe [[work/meeting|meeting]] at work.\nUnchanged line.\n",
+            }],
+            unchangedCount: 2,
+            skippedCount: 3,
+            cancelled: false,
+        })
+
+        expect(report).toBe(`---
+automatic-linker-ai-report: true
+---
+
+# AI Link Enhancer report
+
+- Scope: projects
+- Started: 2026-10-19 090507
+- Changed notes: 1
+- Notes without changes: 2
+- Notes skipped as unchanged since the last run: 3
+
+## [[projects/plan]]
+
+\`\`\`diff
+  …
+- The meeting at work.
++ The [[work/meeting|meeting]] at work.
+  …
+\`\`\`
+`)
+    })
+
+    it("notes runs that were stopped early", () => {
+        const report = renderAIEnhancementReport({
+            scope: "the vault",
+            startedAt,
+            changes: [],
+            unchangedCount: 0,
+            skippedCount: 0,
+            cancelled: true,
+        })
+
+        expect(report).toContain("- The run was stopped before every note was processed.")
+        expect(report).not.toContain("## ")
+    })
+
+    it("notes runs that failed", () => {
+        const report = renderAIEnhancementReport({
+            scope: "the vault",
+            startedAt,
+            changes: [],
+            unchangedCount: 0,
+            skippedCount: 0,
+            cancelled: false,
+            error: "HTTP 500",
+        })
+
+        expect(report).toContain("- The run failed before every note was processed: HTTP 500")
+    })
+})
+
+describe("isAIReport", () => {
+    it("recognizes reports by their frontmatter marker", () => {
+        expect(isAIReport({ "automatic-linker-ai-report": true })).toBe(true)
+        expect(isAIReport({ "automatic-linker-ai-report": "yes" })).toBe(false)
+        expect(isAIReport({})).toBe(false)
+        expect(isAIReport(undefined)).toBe(false)
+    })
+})
+
+describe("getAIReportFileName", () => {
+    it("names reports after the start time", () => {
+        expect(getAIReportFileName(new Date(2026, 0, 2, 3, 4, 5))).toBe("AI Link Enhancer Report 2026-01-02 030405.md")
+    })
+
+    it("numbers reports of runs that started in the same second", () => {
+        expect(getAIReportFileName(new Date(2026, 0, 2, 3, 4, 5), 2)).toBe("AI Link Enhancer Report 2026-01-02 030405 2.md")
+    })
+})
@@ -0,0 +1,50 @@
+import { hashString } from "../utils/hash"
+import { AIDecisions } from "../utils/resolve-ambiguities"
+
+/**
+ * What the AI Link Enhancer decided for a note, and the note's content after the run.
+ */
+export interface AINoteDecisions {
+    contentHash: string
+    decisions: AIDecisions
+}
+
+// Keyed by note path
+export type AIDecisionCache = Record<string, AINoteDecisions>
+
+/**
+ * Returns true when the note has not changed since the AI Link Enhancer last ran on it.
+ */
+export const isNoteUnchangedSinceLastRun = (
+    cache: AIDecisionCache,
+    path: string,
+    content: string,
+): boolean => cache[path]?.contentHash === hashString(content)
+
+export const recordNoteDecisions = (
+    cache: AIDecisionCache,
+    path: string,
+    content: string,
+    decisions: AIDecisions,
+): void => {
+    cache[path] = { contentHash: hashString(content), decisions }
+}
+
+/**
+ * Moves the decisions of a renamed note to its new path, or drops them when the
+ * note was deleted (`newPath` is null). Returns true when the cache changed.
+ */
+export const moveNoteDecisions = (
+    cache: AIDecisionCache,
+    oldPath: string,
+    newPath: string | null,
+): boolean => {
+    const entry = cache[oldPath]
+    if (!entry) return false
+
+    delete cache[oldPath]
+    if (newPath !== null) {
+        cache[newPath] = entry
+    }
+    return true
+}
@@ -0,0 +1,89 @@
+import { collapseDiffContext, diffLines, FileFormatChange } from "../vault-format/vault-format-diff"
+
+export interface AIEnhancementRun {
+    // "the vault" or the folder path
+    scope: string
+    startedAt: Date
+    changes: FileFormatChange[]
+    // Notes processed without any change
+    unchangedCount: number
+    // Notes skipped because they did not change since the last run
+    skippedCount: number
+    cancelled: boolean
+    // Message of the error that ended the run early
+    error?: string
+}
+
+const AI_REPORT_NAME_PREFIX = "AI Link Enhancer Report"
+
+// Marks report notes in their frontmatter, so that runs leave them out
+export const AI_REPORT_FRONTMATTER_KEY = "automatic-linker-ai-report"
+
+export const isAIReport = (frontmatter: Record<string, unknown> | undefined): boolean =>
+    frontmatter?.[AI_REPORT_FRONTMATTER_KEY] === true
+
+const pad = (value: number): string => String(value).padStart(2, "0")
+
+const formatTimestamp = (date: Date): string =>
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+
+/**
+ * Names a report after the start time of its run. `attempt` numbers the reports of
+ * runs that started in the same second.
+ */
+export const getAIReportFileName = (startedAt: Date, attempt = 0): string =>
+    `${AI_REPORT_NAME_PREFIX} ${formatTimestamp(startedAt)}${attempt > 0 ? ` ${attempt}` : ""}.md`
+
+const DIFF_PREFIXES = {
+    context: "  ",
+    insert: "+ ",
+    delete: "- ",
+    skip: "  ",
+} as const
+
+/**
+ * Renders the report note of a folder or vault run, with the changed lines of every note.
+ */
+export const renderAIEnhancementReport = ({
+    scope,
+    startedAt,
+    changes,
+    unchangedCount,
+    skippedCount,
+    cancelled,
+    error,
+}: AIEnhancementRun): string => {
+    const lines = [
+        "---",
+        `${AI_REPORT_FRONTMATTER_KEY}: true`,
+        "---",
+        "",
+        "# AI Link Enhancer report",
+        "",
+        `- Scope: ${scope}`,
+        `- Started: ${formatTimestamp(startedAt)}`,
+        `- Changed notes: ${changes.length}`,
+        `- Notes without changes: ${unchangedCount}`,
+        `- Notes skipped as unchanged since the last run: ${skippedCount}`,
+    ]
+    if (error !== undefined) {
+        lines.push(`- The run failed before every note was processed: ${error}`)
+    }
+    else if (cancelled) {
+        lines.push("- The run was stopped before every note was processed.")
+    }
+
+    for (const change of changes) {
+        lines.push(
+            "",
+            `## [[${change.path.replace(/\.md$/, "")}]]`,
+            "",
+            "```diff",
+            ...collapseDiffContext(diffLines(change.before, change.after), 0)
+                .map(line => `${DIFF_PREFIXES[line.type]}${line.text}`),
+            "```",
+        )
+    }
+
+    return `${lines.join("\n")}\n`
+}
@@ -0,0 +1,26 @@
+import { App, FuzzySuggestModal, TFolder } from "obsidian"
+
+/**
+ * Lets the user pick a folder of the vault, including the vault root.
+ */
+export class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+    private onChoose: (folder: TFolder) => void
+
+    constructor(app: App, onChoose: (folder: TFolder) => void) {
+        super(app)
+        this.onChoose = onChoose
+        this.setPlaceholder("Choose a folder")
+    }
+
+    getItems(): TFolder[] {
+        return this.app.vault.getAllFolders(true)
+    }
+
+    getItemText(folder: TFolder): string {
+        return folder.isRoot() ? "/" : folder.path
+    }
+
+    onChooseItem(folder: TFolder) {
+        this.onChoose(folder)
+    }
+}
@@ -4,6 +4,8 @@ import {
     replaceLinks,
 } from "./replace-links/replace-links"
 import { replaceUrlWithTitle } from "./replace-url-with-title"
+import { listupAllUrls } from "./replace-url-with-title/utils/list-up-all-urls"
+import { TrackerLinkCallback } from "./replace-urls/link-template"
 import { formatURLsInText } from "./replace-urls/url-formatting"
 import {
     AutomaticLinkerSettings,
@@ -26,6 +28,7 @@ export interface FormattingRunOptions {
     candidateIndex?: CandidateIndex
     urlTitleMap?: Map<string, string>
     linkGenerator?: LinkGenerator
+    onTrackerLink?: TrackerLinkCallback
 }
 
 export { projectReplaceLinksSettings as toReplaceLinksSettings } from "./settings/settings-catalog"
@@ -33,12 +36,35 @@ export { projectReplaceLinksSettings as toReplaceLinksSettings } from "./setting
 const formatMarkdownURLs = (
     text: string,
     settings: AutomaticLinkerSettings,
+    onTrackerLink?: TrackerLinkCallback,
 ): string =>
     formatURLsInText({
         text,
         settings,
+        onTrackerLink,
     })
 
+/**
+ * Replaces bare URLs with their titles. The title map is shared by every note, so
+ * it is narrowed to the URLs this note's ignored domains allow.
+ */
+const replaceMarkdownUrlTitles = (
+    body: string,
+    settings: AutomaticLinkerSettings,
+    frontmatter: Record<string, unknown> | undefined,
+    urlTitleMap: Map<string, string>,
+): string => {
+    if (!settings.replaceUrlWithTitle || isUrlTitleReplacementOff(frontmatter)) {
+        return body
+    }
+
+    const allowedUrls = listupAllUrls(body, settings.replaceUrlWithTitleIgnoreDomains)
+    const allowedTitleMap = new Map(
+        [...urlTitleMap].filter(([url]) => allowedUrls.has(url)),
+    )
+    return replaceUrlWithTitle({ body, urlTitleMap: allowedTitleMap })
+}
+
 export const formatMarkdownBody = ({
     body,
     filePath,
@@ -48,12 +74,11 @@ export const formatMarkdownBody = ({
     candidateIndex,
     urlTitleMap = new Map(),
     linkGenerator,
+    onTrackerLink,
 }: Omit<FormattingRunOptions, "content"> & { body: string }): string => {
-    let updatedBody = formatMarkdownURLs(body, settings)
+    let updatedBody = formatMarkdownURLs(body, settings, onTrackerLink)
 
-    if (settings.replaceUrlWithTitle && !isUrlTitleReplacementOff(frontmatter)) {
-        updatedBody = replaceUrlWithTitle({ body: updatedBody, urlTitleMap })
-    }
+    updatedBody = replaceMarkdownUrlTitles(updatedBody, settings, frontmatter, urlTitleMap)
     if (candidateIndex) {
         updatedBody = replaceLinks({
             body: updatedBody,
@@ -70,20 +95,29 @@ export const formatMarkdownBody = ({
     return updatedBody
 }
 
-export const formatMarkdownSelection = ({
+type FormatSelectionOptions = Omit<FormattingRunOptions, "content" | "onTrackerLink"> & {
+    body: string
+    // Ignore-marker regions of the whole document within the selection, relative to it
+    ignoredRanges?: ReadonlyArray<{ start: number, end: number }>
+}
+
+const formatSelectionText = ({
     body,
     filePath,
+    frontmatter,
     settings,
     baseDir,
     candidateIndex,
+    urlTitleMap = new Map(),
     linkGenerator,
-}: Omit<FormattingRunOptions, "content" | "frontmatter" | "urlTitleMap"> & { body: string }): string => {
+}: Omit<FormatSelectionOptions, "ignoredRanges">): string => {
+    const updatedBody = replaceMarkdownUrlTitles(body, settings, frontmatter, urlTitleMap)
     if (!candidateIndex) {
-        return body
+        return updatedBody
     }
 
     return replaceLinks({
-        body,
+        body: updatedBody,
         linkResolverContext: {
             filePath: filePath.replace(/\.md$/, ""),
             trie: candidateIndex.trie,
@@ -94,6 +128,31 @@ export const formatMarkdownSelection = ({
     })
 }
 
+export const formatMarkdownSelection = ({
+    ignoredRanges = [],
+    ...options
+}: FormatSelectionOptions): string => {
+    if (ignoredRanges.length === 0) {
+        return formatSelectionText(options)
+    }
+
+    // Markers may lie outside the selection, so ignored parts are cut out and kept as-is
+    const { body } = options
+    let result = ""
+    let cursor = 0
+    for (const range of [...ignoredRanges].sort((a, b) => a.start - b.start)) {
+        if (range.start > cursor) {
+            result += formatSelectionText({ ...options, body: body.slice(cursor, range.start) })
+        }
+        result += body.slice(Math.max(cursor, range.start), range.end)
+        cursor = Math.max(cursor, range.end)
+    }
+    if (cursor < body.length) {
+        result += formatSelectionText({ ...options, body: body.slice(cursor) })
+    }
+    return result
+}
+
 const inferContentStart = (content: string): number => {
     const frontmatter = content.match(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/)
     return frontmatter?.[0].length ?? 0
@@ -107,6 +166,7 @@ export const formatMarkdownDocument = ({
     const frontmatterText = formatMarkdownURLs(
         content.slice(0, contentStart),
         options.settings,
+        options.onTrackerLink,
     )
     const body = content.slice(contentStart)
     return frontmatterText + formatMarkdownBody({ ...options, body })
@@ -1,3 +1,11 @@
+import { isRegexTerm } from "./replace-links/ignore-terms"
+import {
+    SettingOverridesResult,
+    validateSettingOverrides,
+} from "./settings/settings-profiles"
+
+export const SETTING_OVERRIDES_KEY = "automatic-linker"
+
 /**
  * Check if the file has the "off" frontmatter property
  */
@@ -43,3 +51,42 @@ export const isUrlTitleReplacementOff = (
 ): boolean => {
     return frontmatter?.["automatic-linker-disable-url-title"] === true
 }
+
+/**
+ * Read the terms listed in "automatic-linker-ignore-terms"; a single string counts as one term.
+ * /regex/ patterns are dropped.
+ */
+export const getIgnoredTerms = (
+    frontmatter: Record<string, unknown> | undefined,
+): string[] => {
+    const value = frontmatter?.["automatic-linker-ignore-terms"]
+    const terms: unknown[] = Array.isArray(value) ? value : [value]
+    // Regular expressions are only accepted in the settings, not from notes
+    return terms.filter((term): term is string => typeof term === "string" && !isRegexTerm(term))
+}
+
+/**
+ * Read the minimum match length a note sets for its own title and aliases
+ * with "automatic-linker-min-length"
+ */
+export const getMinLengthOverride = (
+    frontmatter: Record<string, unknown> | undefined,
+): number | undefined => {
+    const value = frontmatter?.["automatic-linker-min-length"]
+    return typeof value === "number" && Number.isInteger(value) && value >= 0
+        ? value
+        : undefined
+}
+
+/**
+ * Read the per-note setting overrides from the "automatic-linker" frontmatter object
+ */
+export const getFrontmatterSettingOverrides = (
+    frontmatter: Record<string, unknown> | undefined,
+): SettingOverridesResult => {
+    const value = frontmatter?.[SETTING_OVERRIDES_KEY]
+    if (value === undefined || value === null) {
+        return { overrides: {}, errors: [] }
+    }
+    return validateSettingOverrides(value, SETTING_OVERRIDES_KEY, { allowRegex: false })
+}
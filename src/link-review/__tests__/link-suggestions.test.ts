@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest"
+import { buildCandidateTrieForTest } from "../../replace-links/__tests__/test-helpers"
+import {
+    applyLinkSuggestions,
+    collectLinkSuggestions,
+} from "../link-suggestions"
+
+describe("link suggestions", () => {
+    const { candidateMap, trie } = buildCandidateTrieForTest({
+        files: [
+            { path: "work/meeting" },
+            { path: "private/meeting" },
+            { path: "TypeScript" },
+        ],
+        settings: {
+            scoped: false,
+            baseDir: undefined,
+            ignoreCase: true,
+        },
+    })
+    const settings = { ignoreCase: true, proximityBasedLinking: true }
+
+    it("lists unlinked occurrences with line numbers and alternative candidates", () => {
+        const suggestions = collectLinkSuggestions({
+            body: "TypeScript notes\n\nA meeting about [[TypeScript]].",
+            filePath: "notes/today",
+            trie,
+            candidateMap,
+            settings,
+        })
+
+        expect(suggestions.map(s => ({
+            text: s.text,
+            line: s.line,
+            target: s.target,
+            candidates: s.candidates,
+        }))).toEqual([
+            {
+                text: "TypeScript",
+                line: 1,
+                target: "TypeScript",
+                candidates: ["TypeScript"],
+            },
+            {
+                text: "meeting",
+                line: 3,
+                target: "private/meeting",
+                candidates: ["work/meeting", "private/meeting"],
+            },
+        ])
+    })
+
+    it("lists only the occurrences linked with linkFirstOccurrenceOnly", () => {
+        const suggestions = collectLinkSuggestions({
+            body: "TypeScript and typescript\n\nTypeScript again",
+            filePath: "notes/today",
+            trie,
+            candidateMap,
+            settings: { ...settings, linkFirstOccurrenceOnly: true },
+        })
+
+        expect(suggestions.map(s => ({ text: s.text, line: s.line }))).toEqual([
+            { text: "TypeScript", line: 1 },
+        ])
+
+        // An existing link counts as the first occurrence
+        expect(collectLinkSuggestions({
+            body: "TypeScript and [[TypeScript]]",
+            filePath: "notes/today",
+            trie,
+            candidateMap,
+            settings: { ...settings, linkFirstOccurrenceOnly: true },
+        })).toEqual([])
+
+        const perSection = collectLinkSuggestions({
+            body: "TypeScript and typescript\n\n# Notes\n\nTypeScript again",
+            filePath: "notes/today",
+            trie,
+            candidateMap,
+            settings: { ...settings, linkFirstOccurrenceOnly: true, linkFirstOccurrencePerSection: true },
+        })
+
+        expect(perSection.map(s => ({ text: s.text, line: s.line }))).toEqual([
+            { text: "TypeScript", line: 1 },
+            { text: "TypeScript", line: 5 },
+        ])
+    })
+
+    it("skips rejected phrases", () => {
+        const suggestions = collectLinkSuggestions({
+            body: "TypeScript meeting",
+            filePath: "notes/today",
+            trie,
+            candidateMap,
+            settings,
+            rejectedPhrases: ["typescript"],
+        })
+
+        expect(suggestions.map(s => s.text)).toEqual(["meeting"])
+    })
+
+    it("applies only accepted suggestions with their chosen targets", () => {
+        const body = "TypeScript meeting and another meeting"
+        const suggestions = collectLinkSuggestions({
+            body,
+            filePath: "notes/today",
+            trie,
+            candidateMap,
+            settings,
+        })
+
+        const result = applyLinkSuggestions({
+            body,
+            filePath: "notes/today",
+            settings,
+            decisions: [
+                { suggestion: suggestions[1], target: "work/meeting" },
+                { suggestion: suggestions[2], target: suggestions[2].target },
+            ],
+        })
+
+        expect(result).toBe(
+            "TypeScript [[work/meeting|meeting]] and another [[private/meeting|meeting]]",
+        )
+    })
+})
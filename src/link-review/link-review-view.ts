@@ -0,0 +1,183 @@
+import {
+    ButtonComponent,
+    DropdownComponent,
+    getFrontMatterInfo,
+    ItemView,
+    Notice,
+    TFile,
+    WorkspaceLeaf,
+} from "obsidian"
+import type AutomaticLinkerPlugin from "../main"
+import { runAsyncSafely } from "../plugin-compat"
+import { isRejectedPhrase, LinkSuggestion } from "./link-suggestions"
+
+export const LINK_REVIEW_VIEW_TYPE = "automatic-linker-link-review"
+
+/**
+ * Side panel listing every link the plugin would add to the active note.
+ * Nothing is written until the accepted suggestions are applied.
+ */
+export class LinkReviewView extends ItemView {
+    private plugin: AutomaticLinkerPlugin
+    private file: TFile | null = null
+    private body = ""
+    private lineOffset = 0
+    private suggestions: LinkSuggestion[] = []
+    // Chosen target per suggestion id
+    private targets: Map<string, string> = new Map()
+    private accepted: Set<string> = new Set()
+
+    constructor(leaf: WorkspaceLeaf, plugin: AutomaticLinkerPlugin) {
+        super(leaf)
+        this.plugin = plugin
+    }
+
+    getViewType(): string {
+        return LINK_REVIEW_VIEW_TYPE
+    }
+
+    getDisplayText(): string {
+        return "Link suggestions"
+    }
+
+    getIcon(): string {
+        return "list-checks"
+    }
+
+    async onOpen() {
+        this.registerEvent(
+            this.app.workspace.on("active-leaf-change", () => {
+                const activeFile = this.app.workspace.getActiveFile()
+                if (activeFile?.path === this.file?.path) return
+                runAsyncSafely(() => this.refresh())
+            }),
+        )
+        await this.refresh()
+    }
+
+    async refresh() {
+        const activeFile = this.app.workspace.getActiveFile()
+        this.file = activeFile?.extension === "md" ? activeFile : null
+        this.suggestions = []
+        this.targets.clear()
+        this.accepted.clear()
+
+        if (this.file) {
+            const content = await this.app.vault.read(this.file)
+            const { contentStart } = getFrontMatterInfo(content)
+            this.body = content.slice(contentStart)
+            this.lineOffset = content.slice(0, contentStart).split("\n").length - 1
+            this.suggestions = this.plugin.getLinkSuggestions(this.file, this.body)
+        }
+
+        this.render()
+    }
+
+    private render() {
+        const container = this.contentEl
+        container.empty()
+        container.addClass("automatic-linker-link-review")
+
+        if (!this.file) {
+            container.createEl("p", { text: "Open a note to review link suggestions." })
+            return
+        }
+
+        const header = container.createDiv({ cls: "automatic-linker-link-review-header" })
+        header.createEl("h4", { text: this.file.basename })
+        new ButtonComponent(header)
+            .setIcon("refresh-ccw")
+            .setTooltip("Refresh")
+            .onClick(() => runAsyncSafely(() => this.refresh()))
+        new ButtonComponent(header)
+            .setButtonText(`Apply accepted (${this.accepted.size})`)
+            .setCta()
+            .setDisabled(this.accepted.size === 0)
+            .onClick(() => runAsyncSafely(() => this.applyAccepted()))
+
+        if (this.suggestions.length === 0) {
+            container.createEl("p", { text: "No link suggestions." })
+            return
+        }
+
+        const list = container.createDiv({ cls: "automatic-linker-link-review-list" })
+        for (const suggestion of this.suggestions) {
+            this.renderSuggestion(list, suggestion)
+        }
+    }
+
+    private renderSuggestion(list: HTMLElement, suggestion: LinkSuggestion) {
+        const isAccepted = this.accepted.has(suggestion.id)
+        const item = list.createDiv({ cls: "automatic-linker-link-review-item" })
+        item.toggleClass("is-accepted", isAccepted)
+
+        const summary = item.createDiv({ cls: "automatic-linker-link-review-summary" })
+        summary.createSpan({ cls: "automatic-linker-link-review-text", text: suggestion.text })
+        summary.createSpan({
+            cls: "automatic-linker-link-review-line",
+            text: `Line ${suggestion.line + this.lineOffset}`,
+        })
+
+        const target = this.targets.get(suggestion.id) ?? suggestion.target
+        const controls = item.createDiv({ cls: "automatic-linker-link-review-controls" })
+        if (suggestion.candidates.length > 1) {
+            const dropdown = new DropdownComponent(controls)
+            for (const candidate of suggestion.candidates) {
+                dropdown.addOption(candidate, candidate)
+            }
+            dropdown
+                .setValue(target)
+                .onChange(value => this.targets.set(suggestion.id, value))
+        }
+        else {
+            controls.createSpan({ cls: "automatic-linker-link-review-target", text: target })
+        }
+
+        new ButtonComponent(controls)
+            .setButtonText(isAccepted ? "Undo" : "Accept")
+            .onClick(() => {
+                if (isAccepted) {
+                    this.accepted.delete(suggestion.id)
+                }
+                else {
+                    this.accepted.add(suggestion.id)
+                }
+                this.render()
+            })
+        new ButtonComponent(controls)
+            .setButtonText("Reject")
+            .setWarning()
+            .onClick(() => runAsyncSafely(() => this.reject(suggestion)))
+    }
+
+    private async reject(suggestion: LinkSuggestion) {
+        if (!this.file) return
+        await this.plugin.rejectLinkSuggestionPhrase(this.file, suggestion.text)
+
+        const ignoreCase = this.plugin.settings.ignoreCase
+        this.suggestions = this.suggestions.filter((other) => {
+            if (!isRejectedPhrase(other.text, [suggestion.text], ignoreCase)) {
+                return true
+            }
+            this.accepted.delete(other.id)
+            return false
+        })
+        this.render()
+    }
+
+    private async applyAccepted() {
+        if (!this.file) return
+
+        const decisions = this.suggestions
+            .filter(suggestion => this.accepted.has(suggestion.id))
+            .map(suggestion => ({
+                suggestion,
+                target: this.targets.get(suggestion.id) ?? suggestion.target,
+            }))
+        const applied = await this.plugin.applyLinkSuggestions(this.file, this.body, decisions)
+        if (!applied) {
+            new Notice("Automatic Linker: The note changed since the suggestions were collected. Review them again.")
+        }
+        await this.refresh()
+    }
+}
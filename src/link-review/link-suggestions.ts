@@ -0,0 +1,161 @@
+import {
+    CandidateOccurrence,
+    scanCandidateOccurrences,
+} from "../replace-links/candidate-scanner"
+import { createFirstOccurrenceTracker } from "../replace-links/first-occurrence"
+import {
+    createLinkContent,
+    LinkGenerator,
+    renderCandidateLink,
+    ReplaceLinksSettings,
+} from "../replace-links/replace-links"
+import { CandidateData, TrieNode } from "../trie"
+
+export interface LinkSuggestion {
+    id: string
+    start: number
+    end: number
+    // 1-based line number relative to the scanned body
+    line: number
+    text: string
+    // Canonical path the link would point to if accepted as-is
+    target: string
+    candidates: string[]
+    occurrence: CandidateOccurrence
+}
+
+export interface LinkSuggestionDecision {
+    suggestion: LinkSuggestion
+    target: string
+}
+
+export interface CollectLinkSuggestionsOptions {
+    body: string
+    filePath: string
+    trie: TrieNode
+    candidateMap: Map<string, CandidateData>
+    settings?: ReplaceLinksSettings
+    rejectedPhrases?: readonly string[]
+}
+
+export interface ApplyLinkSuggestionsOptions {
+    body: string
+    filePath: string
+    decisions: readonly LinkSuggestionDecision[]
+    settings?: ReplaceLinksSettings
+    linkGenerator?: LinkGenerator
+}
+
+const normalizePhrase = (phrase: string, ignoreCase?: boolean): string =>
+    ignoreCase ? phrase.toLowerCase() : phrase
+
+export const isRejectedPhrase = (
+    phrase: string,
+    rejectedPhrases: readonly string[],
+    ignoreCase?: boolean,
+): boolean => {
+    const normalized = normalizePhrase(phrase, ignoreCase)
+    return rejectedPhrases.some(rejected =>
+        normalizePhrase(rejected, ignoreCase) === normalized,
+    )
+}
+
+/**
+ * Lists every unlinked candidate that link replacement would turn into a link,
+ * leaving out phrases the user has rejected for this note. With "linkFirstOccurrenceOnly",
+ * only the occurrences that formatting would link are listed.
+ */
+export const collectLinkSuggestions = ({
+    body,
+    filePath,
+    trie,
+    candidateMap,
+    settings = {},
+    rejectedPhrases = [],
+}: CollectLinkSuggestionsOptions): LinkSuggestion[] => {
+    const text = body.normalize("NFC")
+    const occurrences = scanCandidateOccurrences({
+        text,
+        filePath,
+        trie,
+        candidateMap,
+        settings,
+    })
+
+    const occurrenceTracker = settings.linkFirstOccurrenceOnly
+        ? createFirstOccurrenceTracker(text, candidateMap, settings)
+        : undefined
+    const suggestions: LinkSuggestion[] = []
+    let line = 1
+    let lineCursor = 0
+
+    for (const occurrence of occurrences) {
+        if (occurrence.kind !== "unlinked") continue
+
+        const replacement = occurrence.replacementCandidateData ?? occurrence.candidateData
+        const target = replacement.candidates[0]?.canonical
+        if (!target) continue
+        // Claimed before the rejection check, since formatting links rejected phrases too
+        if (
+            occurrenceTracker
+            && !occurrenceTracker.claim(createLinkContent(replacement, occurrence.text, settings).linkPath, occurrence.start)
+        ) {
+            continue
+        }
+        if (isRejectedPhrase(occurrence.text, rejectedPhrases, settings.ignoreCase)) continue
+
+        for (; lineCursor < occurrence.start; lineCursor++) {
+            if (text[lineCursor] === "\n") line++
+        }
+
+        suggestions.push({
+            id: `${occurrence.start}:${occurrence.text}`,
+            start: occurrence.start,
+            end: occurrence.end,
+            line,
+            text: occurrence.text,
+            target,
+            candidates: occurrence.candidateData.candidates.map(c => c.canonical),
+            occurrence,
+        })
+    }
+
+    return suggestions
+}
+
+/**
+ * Rewrites only the accepted suggestions, each pointing at its chosen target.
+ */
+export const applyLinkSuggestions = ({
+    body,
+    filePath,
+    decisions,
+    settings = {},
+    linkGenerator,
+}: ApplyLinkSuggestionsOptions): string => {
+    let result = body.normalize("NFC")
+    const sortedDecisions = decisions
+        .slice()
+        .sort((a, b) => b.suggestion.start - a.suggestion.start)
+
+    for (const { suggestion, target } of sortedDecisions) {
+        const { occurrence } = suggestion
+        const replacement = occurrence.replacementCandidateData ?? occurrence.candidateData
+        const chosen = target === suggestion.target
+            ? replacement.candidates[0]
+            : occurrence.candidateData.candidates.find(c => c.canonical === target)
+        if (!chosen) continue
+
+        const link = renderCandidateLink({
+            candidateData: { candidates: [chosen] },
+            matchedText: occurrence.text,
+            filePath,
+            settings,
+            linkGenerator,
+            isInTable: occurrence.isInTable,
+        })
+        result = result.slice(0, suggestion.start) + link + result.slice(suggestion.end)
+    }
+
+    return result
+}
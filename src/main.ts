@@ -3,13 +3,29 @@ import {
     Editor,
     getFrontMatterInfo,
     MarkdownView,
+    normalizePath,
     Notice,
     parseFrontMatterAliases,
     Plugin,
     PluginManifest,
-    request,
+    requestUrl,
+    TAbstractFile,
     TFile,
+    TFolder,
+    WorkspaceLeaf,
 } from "obsidian"
+import {
+    AIDecisionCache,
+    isNoteUnchangedSinceLastRun,
+    moveNoteDecisions,
+    recordNoteDecisions,
+} from "./ai-link-enhancer/ai-decision-cache"
+import {
+    getAIReportFileName,
+    isAIReport,
+    renderAIEnhancementReport,
+} from "./ai-link-enhancer/ai-enhancement-report"
+import { FolderSuggestModal } from "./ai-link-enhancer/folder-suggest-modal"
 import { excludeLinks } from "./exclude-links"
 import {
     formatMarkdownDocument,
@@ -17,11 +33,25 @@ import {
     toReplaceLinksSettings,
 } from "./formatting-run"
 import {
+    getFrontmatterSettingOverrides,
+    getIgnoredTerms,
+    getMinLengthOverride,
     isLinkingOff,
     isLinkingExcluded,
     isNamespaceScoped,
     isUrlTitleReplacementOff,
 } from "./frontmatter-utils"
+import {
+    LINK_REVIEW_VIEW_TYPE,
+    LinkReviewView,
+} from "./link-review/link-review-view"
+import {
+    applyLinkSuggestions,
+    collectLinkSuggestions,
+    LinkSuggestion,
+    LinkSuggestionDecision,
+} from "./link-review/link-suggestions"
+import { getIgnoreRegionRanges } from "./markdown-segments"
 import { PathAndAliases } from "./path-and-aliases.types"
 import { removeMinimalIndent } from "./remove-minimal-indent"
 import {
@@ -31,28 +61,74 @@ import {
     LinkGeneratorParams,
     replaceLinks,
 } from "./replace-links/replace-links"
+import { renderTrackerNote, TrackerLink } from "./replace-urls/link-template"
 import { getTitleFromHtml } from "./replace-url-with-title/utils/get-title-from-html"
+import {
+    fetchUrlTitles,
+    UrlTitleFetchResult,
+} from "./replace-url-with-title/fetch-url-titles"
+import { decodeHtmlResponse } from "./replace-url-with-title/utils/decode-html"
 import { listupAllUrls } from "./replace-url-with-title/utils/list-up-all-urls"
+import {
+    isUrlTitleCacheEntryFresh,
+    pruneUrlTitleCache,
+    recordUrlTitle,
+    recordUrlTitleFailure,
+    toUrlTitleMap,
+    UrlTitleCache,
+} from "./replace-url-with-title/url-title-cache"
 import { AutomaticLinkerPluginSettingsTab } from "./settings/settings"
 import {
     AutomaticLinkerSettings,
     DEFAULT_SETTINGS,
 } from "./settings/settings-info"
-import { buildCandidateTrie, CandidateData, TrieNode } from "./trie"
+import {
+    isFolderProfileOff,
+    resolveFolderSettings,
+} from "./settings/settings-profiles"
+import {
+    addFileToCandidateTrie,
+    buildCandidateTrie,
+    CandidateData,
+    removeFileFromCandidateTrie,
+    TrieNode,
+} from "./trie"
 import { updateEditor } from "./update-editor"
-import { runAsyncSafely, sleep } from "./plugin-compat"
-import { resolveAmbiguities } from "./utils/resolve-ambiguities"
+import { ignoreAlreadyExists, runAsyncSafely, sleep } from "./plugin-compat"
+import {
+    createFormatJournalEntry,
+    FormatJournal,
+    FormatJournalEntry,
+    revertFormatJournalEntry,
+} from "./vault-format/format-journal"
+import { FileFormatChange } from "./vault-format/vault-format-diff"
+import { VaultFormatPreviewModal } from "./vault-format/vault-format-preview-modal"
+import { createJsonDataStore, JsonDataStore } from "./utils/json-data-store"
+import { AIDecisions, resolveAmbiguities } from "./utils/resolve-ambiguities"
 
 export default class AutomaticLinkerPlugin extends Plugin {
     settings: AutomaticLinkerSettings
     // Pre-built Trie for link candidate lookup
     private trie: TrieNode | null = null
     private candidateMap: Map<string, CandidateData> | null = null
+    // Files registered in the Trie, keyed by path without the .md extension
+    private indexedFiles: Map<string, PathAndAliases> = new Map()
     // Preserved callback for the original save command
     private originalSaveCallback: (checking: boolean) => boolean | void
     private urlTitleMap: Map<string, string> = new Map()
+    // Fetched URL titles and failed fetches, persisted across restarts
+    private urlTitleCache: UrlTitleCache = {}
+    // URLs whose title is being fetched, possibly after formatting went ahead without them
+    private pendingUrlTitleFetches: Set<string> = new Set()
+    private urlTitleStatusBarItem: HTMLElement | null = null
     // Cache of frontmatter values that affect the Trie
     private frontmatterCache: Map<string, string> = new Map()
+    // Last reported frontmatter setting errors, keyed by note path
+    private reportedSettingErrors: Map<string, string> = new Map()
+    // Phrases rejected in the link review panel, keyed by note path
+    private linkReviewRejections: Record<string, string[]> = {}
+    // Pending updates of the AI decision cache, applied one at a time
+    private aiDecisionCacheUpdates: Promise<void> = Promise.resolve()
 
     constructor(app: App, pluginManifest: PluginManifest) {
         super(app, pluginManifest)
@@ -93,20 +169,78 @@ export default class AutomaticLinkerPlugin extends Plugin {
         }
     }
 
+    /**
+     * Returns the settings that apply to a note: the global settings, then matching
+     * folder profiles, then the note's own "automatic-linker" frontmatter overrides.
+     * Terms ignored by the note are added to the ignored terms.
+     */
+    getSettingsForFile(
+        filePath: string,
+        frontmatter?: Record<string, unknown>,
+    ): AutomaticLinkerSettings {
+        const folderSettings = resolveFolderSettings(this.settings, filePath)
+        const { overrides, errors } = getFrontmatterSettingOverrides(frontmatter)
+        this.reportSettingErrors(filePath, errors)
+        const ignoredTerms = getIgnoredTerms(frontmatter)
+        if (Object.keys(overrides).length === 0 && ignoredTerms.length === 0) {
+            return folderSettings
+        }
+
+        const settings = { ...folderSettings, ...overrides }
+        return ignoredTerms.length > 0
+            ? { ...settings, ignoreTerms: [...settings.ignoreTerms, ...ignoredTerms] }
+            : settings
+    }
+
+    /**
+     * Shows invalid frontmatter settings once per note until they change.
+     */
+    private reportSettingErrors(filePath: string, errors: string[]) {
+        const signature = errors.join("\n")
+        if ((this.reportedSettingErrors.get(filePath) ?? "") === signature) return
+
+        if (signature === "") {
+            this.reportedSettingErrors.delete(filePath)
+            return
+        }
+        this.reportedSettingErrors.set(filePath, signature)
+        new Notice(`Automatic Linker: Ignored invalid settings in ${filePath}:\n${signature}`)
+    }
+
+    private getFrontmatter(file: TFile): Record<string, unknown> | undefined {
+        return this.app.metadataCache.getFileCache(file)?.frontmatter
+    }
+
+    /**
+     * Formats a note's content.
+     * With `trackerLinks`, the tracker links it produces are collected there when
+     * notes should be created for them; dry runs leave it out.
+     */
     modifyLinks(
         fileContent: string,
         filePath: string,
         frontmatter?: Record<string, unknown>,
+        { trackerLinks }: { trackerLinks?: TrackerLink[] } = {},
     ): string {
+        if (isFolderProfileOff(this.settings, filePath)) {
+            return fileContent
+        }
+        const settings = this.getSettingsForFile(filePath, frontmatter)
+        const onTrackerLink = trackerLinks && settings.createTrackerNotes
+            ? (link: TrackerLink) => trackerLinks.push(link)
+            : undefined
+
         if (!this.trie || !this.candidateMap) {
-            return formatMarkdownDocument({
+            fileContent = formatMarkdownDocument({
                 content: fileContent,
                 filePath,
                 contentStart: getFrontMatterInfo(fileContent).contentStart,
                 frontmatter,
-                settings: this.settings,
+                settings,
                 urlTitleMap: this.urlTitleMap,
+                onTrackerLink,
             })
+            return fileContent
         }
 
         if (this.settings.debug) {
@@ -116,7 +250,7 @@ export default class AutomaticLinkerPlugin extends Plugin {
             new Notice(`Automatic Linker: ${new Date().toISOString()} modifyLinks started.`)
         }
 
-        const baseDir = this.settings.respectNewFileFolderPath ? this.app.vault.getConfig("newFileFolderPath") : undefined
+        const baseDir = this.getBaseDir()
         const candidateIndex = this.trie && this.candidateMap
             ? { trie: this.trie, candidateMap: this.candidateMap }
             : undefined
@@ -125,11 +259,12 @@ export default class AutomaticLinkerPlugin extends Plugin {
             filePath,
             contentStart: getFrontMatterInfo(fileContent).contentStart,
             frontmatter,
-            settings: this.settings,
+            settings,
             baseDir,
             candidateIndex,
             urlTitleMap: this.urlTitleMap,
             linkGenerator: candidateIndex ? this.createLinkGenerator(filePath) : undefined,
+            onTrackerLink,
         })
 
         if (this.settings.debug) {
@@ -139,6 +274,43 @@ export default class AutomaticLinkerPlugin extends Plugin {
         return fileContent
     }
 
+    /**
+     * Creates the missing target notes of tracker links one at a time and registers them
+     * in the Trie right away, so that later runs can link to them.
+     * Links to the same note are created once, and notes or folders created by another
+     * run in the meantime are left as they are.
+     */
+    private async createTrackerNotes(links: TrackerLink[]) {
+        const baseDir = this.getBaseDir()
+        const linksByPath = new Map<string, TrackerLink>()
+        for (const link of links) {
+            const path = normalizePath(`${baseDir ? `${baseDir}/` : ""}${link.target}.md`)
+            if (!linksByPath.has(path)) {
+                linksByPath.set(path, link)
+            }
+        }
+
+        for (const [path, link] of linksByPath) {
+            try {
+                if (this.app.vault.getAbstractFileByPath(path)) continue
+
+                const folder = path.split("/").slice(0, -1).join("/")
+                if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+                    await ignoreAlreadyExists(this.app.vault.createFolder(folder))
+                }
+                const file = await ignoreAlreadyExists(
+                    this.app.vault.create(path, renderTrackerNote(this.settings.trackerNoteTemplate, link)),
+                )
+                if (file) {
+                    this.updateFileDataAndTrie(file.path, file)
+                }
+            }
+            catch (error) {
+                console.error(`Automatic Linker: Failed to create ${path}:`, error)
+            }
+        }
+    }
+
     modifyLinksForActiveFile() {
         const activeFile = this.app.workspace.getActiveFile()
         if (!activeFile) return
@@ -151,54 +323,532 @@ export default class AutomaticLinkerPlugin extends Plugin {
 
         const fileContent = editor.getValue()
         const oldText = fileContent
-        const newText = this.modifyLinks(fileContent, activeFile.path, metadata)
+        const trackerLinks: TrackerLink[] = []
+        const newText = this.modifyLinks(fileContent, activeFile.path, metadata, { trackerLinks })
         updateEditor(oldText, newText, editor)
+        if (trackerLinks.length > 0) {
+            runAsyncSafely(() => this.createTrackerNotes(trackerLinks))
+        }
     }
 
     async modifyLinksForVault() {
         this.refreshFileDataAndTrie()
-        const allMarkdownFiles = this.app.vault.getMarkdownFiles()
-        for (const file of allMarkdownFiles) {
+        await this.formatFiles(this.app.vault.getMarkdownFiles())
+    }
+
+    private getFormatJournalStore(): JsonDataStore<FormatJournal | null> {
+        return this.createDataStore("format-vault-journal.json", () => null)
+    }
+
+    /**
+     * Formats the given files and records how to undo the run in the format journal.
+     */
+    private async formatFiles(files: TFile[]) {
+        await this.buildUrlTitleMapForFiles(files)
+        const trackerLinks: TrackerLink[] = []
+        await this.writeFormattedFiles(files, trackerLinks, (file, fileContent) => {
             const metadata = this.app.metadataCache.getFileCache(file)?.frontmatter
-            await this.app.vault.process(file, (fileContent) => {
-                return this.modifyLinks(fileContent, file.path, metadata)
+            return this.modifyLinks(fileContent, file.path, metadata, { trackerLinks })
+        })
+    }
+
+    /**
+     * Rewrites each file with the content returned by format and records how to undo
+     * the run in the format journal. Files for which format returns undefined are left
+     * unchanged and reported as skipped.
+     * The journal is saved even when the run stops partway, so that every file
+     * already rewritten can be reverted. Files that fail are skipped and reported.
+     */
+    private async writeFormattedFiles(
+        files: TFile[],
+        trackerLinks: TrackerLink[],
+        format: (file: TFile, fileContent: string) => string | undefined,
+    ) {
+        const entries: FormatJournalEntry[] = []
+        const skippedPaths: string[] = []
+        const failedPaths: string[] = []
+        try {
+            for (const file of files) {
+                let entry: FormatJournalEntry | undefined
+                let isSkipped = false
+                try {
+                    await this.app.vault.process(file, (fileContent) => {
+                        const formatted = format(file, fileContent)
+                        if (formatted === undefined) {
+                            isSkipped = true
+                            return fileContent
+                        }
+                        entry = formatted !== fileContent
+                            ? createFormatJournalEntry(file.path, fileContent, formatted)
+                            : undefined
+                        return formatted
+                    })
+                }
+                catch (error) {
+                    console.error(`Automatic Linker: Failed to format ${file.path}:`, error)
+                    failedPaths.push(file.path)
+                    continue
+                }
+                if (isSkipped) {
+                    skippedPaths.push(file.path)
+                }
+                if (entry) {
+                    entries.push(entry)
+                }
+            }
+            await this.createTrackerNotes(trackerLinks)
+        }
+        finally {
+            // Keep the previous journal when this run did not change anything
+            if (entries.length > 0) {
+                await this.getFormatJournalStore().save({ createdAt: Date.now(), entries })
+            }
+        }
+
+        const skippedMessage = skippedPaths.length > 0
+            ? ` Skipped ${skippedPaths.length} files modified since the preview: ${skippedPaths.join(", ")}`
+            : ""
+        const failedMessage = failedPaths.length > 0
+            ? ` Failed to format ${failedPaths.length} files: ${failedPaths.join(", ")}`
+            : ""
+        new Notice(`Automatic Linker: Formatted ${entries.length} files.${skippedMessage}${failedMessage}`)
+    }
+
+    async revertLastVaultFormat() {
+        const store = this.getFormatJournalStore()
+        const journal = await store.load()
+        if (!journal || journal.entries.length === 0) {
+            new Notice("Automatic Linker: There is no vault format to revert.")
+            return
+        }
+
+        let reverted = 0
+        const skippedPaths: string[] = []
+        for (const entry of journal.entries) {
+            const file = this.app.vault.getFileByPath(entry.path)
+            if (!file) {
+                skippedPaths.push(entry.path)
+                continue
+            }
+
+            let isReverted = false
+            await this.app.vault.process(file, (content) => {
+                const result = revertFormatJournalEntry(entry, content)
+                if (result.status !== "reverted") return content
+                isReverted = true
+                return result.content
             })
+            if (isReverted) {
+                reverted++
+            }
+            else {
+                skippedPaths.push(entry.path)
+            }
         }
+        await store.save(null)
+
+        if (skippedPaths.length > 0) {
+            console.warn("Automatic Linker: Skipped files modified since the vault format:", skippedPaths)
+        }
+        new Notice(`Automatic Linker: Reverted ${reverted} files.${skippedPaths.length > 0 ? ` Skipped ${skippedPaths.length} files modified since the run.` : ""}`)
     }
 
-    async buildUrlTitleMap() {
+    /**
+     * Runs "Format vault" without writing anything and returns the files that would change.
+     * URL titles come from the cache only, so the preview makes no requests.
+     * The tracker links of each changed file are collected in trackerLinksByPath when given.
+     */
+    async collectVaultFormatChanges(
+        trackerLinksByPath?: Map<string, TrackerLink[]>,
+    ): Promise<FileFormatChange[]> {
+        const files = this.app.vault.getMarkdownFiles()
+        const changes: FileFormatChange[] = []
+        for (const file of files) {
+            const metadata = this.app.metadataCache.getFileCache(file)?.frontmatter
+            const before = await this.app.vault.read(file)
+            const trackerLinks: TrackerLink[] = []
+            const after = this.modifyLinks(before, file.path, metadata, { trackerLinks })
+            if (before !== after) {
+                changes.push({ path: file.path, before, after })
+                trackerLinksByPath?.set(file.path, trackerLinks)
+            }
+        }
+        return changes
+    }
+
+    async previewFormatVault() {
+        this.refreshFileDataAndTrie()
+        const trackerLinksByPath = new Map<string, TrackerLink[]>()
+        const changes = await this.collectVaultFormatChanges(trackerLinksByPath)
+        if (changes.length === 0) {
+            new Notice("Automatic Linker: Formatting the vault would not change any file.")
+            return
+        }
+
+        new VaultFormatPreviewModal(this.app, changes, (paths) => {
+            const selected = changes.filter(change => paths.includes(change.path))
+            runAsyncSafely(() => this.applyVaultFormatChanges(selected, trackerLinksByPath))
+        }).open()
+    }
+
+    /**
+     * Writes the previewed content of each change, so that the files end up exactly
+     * as shown in the preview. Files modified since the preview are skipped.
+     */
+    private async applyVaultFormatChanges(
+        changes: FileFormatChange[],
+        trackerLinksByPath: Map<string, TrackerLink[]>,
+    ) {
+        const changesByPath = new Map(changes.map(change => [change.path, change]))
+        const files = changes
+            .map(change => this.app.vault.getFileByPath(change.path))
+            .filter((file): file is TFile => file !== null)
+        const trackerLinks: TrackerLink[] = []
+        await this.writeFormattedFiles(files, trackerLinks, (file, fileContent) => {
+            const change = changesByPath.get(file.path)
+            if (change === undefined || change.before !== fileContent) return undefined
+            trackerLinks.push(...(trackerLinksByPath.get(file.path) ?? []))
+            return change.after
+        })
+    }
+
+    private getAIDecisionCacheStore(): JsonDataStore<AIDecisionCache> {
+        return this.createDataStore("ai-decision-cache.json", () => ({}))
+    }
+
+    /**
+     * Loads the AI decision cache, applies the update and saves it when the update
+     * returns true. Updates run one at a time, so none of them overwrites another.
+     */
+    private updateAIDecisionCache(update: (cache: AIDecisionCache) => boolean): Promise<void> {
+        const run = this.aiDecisionCacheUpdates.then(async () => {
+            const store = this.getAIDecisionCacheStore()
+            const cache = await store.load()
+            if (update(cache)) {
+                await store.save(cache)
+            }
+        })
+        this.aiDecisionCacheUpdates = run.catch(() => undefined)
+        return run
+    }
+
+    /**
+     * Runs the AI Link Enhancer over the notes of a folder, or of the vault when the
+     * folder is the root, and writes a report note listing every change.
+     * Notes unchanged since the last run are skipped, and decisions are reused for
+     * occurrences whose context did not change.
+     */
+    async enhanceLinksWithAIInFolder(folder: TFolder) {
+        if (!this.settings.aiEnabled) {
+            new Notice("AI Link Enhancement is not enabled in settings.")
+            return
+        }
+
+        this.refreshFileDataAndTrie()
+        const { trie, candidateMap } = this
+        if (!trie || !candidateMap) {
+            new Notice("Failed to build index.")
+            return
+        }
+
+        const scope = folder.isRoot() ? "the vault" : folder.path
+        const files = this.app.vault.getMarkdownFiles().filter(file =>
+            (folder.isRoot() || file.path.startsWith(`${folder.path}/`))
+            && !isAIReport(this.getFrontmatter(file)),
+        )
+
+        const abortController = new AbortController()
+        const noticeFragment = activeDocument.createDocumentFragment()
+        const container = noticeFragment.createEl("div")
+        const status = container.createEl("div", { text: `AI Link Enhancer: Processing ${scope}...` })
+        const progress = container.createEl("progress")
+        progress.setAttr("style", "width: 100%; height: 10px;")
+        progress.max = files.length
+        progress.value = 0
+        container.createEl("button", { text: "Stop" }).addEventListener("click", (event) => {
+            // Keep the notice open until the run stops
+            event.stopPropagation()
+            abortController.abort()
+            status.setText("AI Link Enhancer: Stopping...")
+        })
+        const notice = new Notice(noticeFragment, 0)
+
+        const cache = await this.getAIDecisionCacheStore().load()
+        // Decisions of this run, merged into the cache when the run ends
+        const recorded: AIDecisionCache = {}
+        const startedAt = new Date()
+        const changes: FileFormatChange[] = []
+        let unchangedCount = 0
+        let skippedCount = 0
+        let failure: string | undefined
+
+        try {
+            for (const [index, file] of files.entries()) {
+                if (abortController.signal.aborted) break
+                status.setText(`AI Link Enhancer: ${index + 1}/${files.length} ${file.path}`)
+
+                const metadata = this.getFrontmatter(file)
+                const content = await this.app.vault.read(file)
+                progress.value = index
+                if (isLinkingOff(metadata) || isFolderProfileOff(this.settings, file.path)) {
+                    continue
+                }
+                if (isNoteUnchangedSinceLastRun(cache, file.path, content)) {
+                    skippedCount++
+                    continue
+                }
+
+                const { contentStart } = getFrontMatterInfo(content)
+                const body = content.slice(contentStart)
+                const normalizedFilePath = file.path.replace(/\.md$/, "")
+                const baseDir = this.getBaseDir()
+                const settings = this.getSettingsForFile(file.path, metadata)
+                const decisions: AIDecisions = {}
+                const resolvedAmbiguities = await resolveAmbiguities(
+                    body,
+                    candidateMap,
+                    trie,
+                    settings,
+                    normalizedFilePath,
+                    baseDir,
+                    {
+                        signal: abortController.signal,
+                        cachedDecisions: cache[file.path]?.decisions,
+                        onDecision: (key, path) => {
+                            decisions[key] = path
+                        },
+                    },
+                )
+                // Leave a note whose batches did not all finish untouched
+                if (abortController.signal.aborted) break
+
+                const formatted = content.slice(0, contentStart) + replaceLinks({
+                    body,
+                    linkResolverContext: {
+                        filePath: normalizedFilePath,
+                        trie,
+                        candidateMap,
+                    },
+                    settings: toReplaceLinksSettings(settings, baseDir),
+                    linkGenerator: this.createLinkGenerator(file.path),
+                    resolvedAmbiguities,
+                })
+
+                let written = false
+                await this.app.vault.process(file, (current) => {
+                    // The note was edited while the AI was working on it
+                    if (current !== content) return current
+                    written = true
+                    return formatted
+                })
+                if (written) {
+                    recordNoteDecisions(recorded, file.path, formatted, decisions)
+                    if (formatted !== content) {
+                        changes.push({ path: file.path, before: content, after: formatted })
+                    }
+                    else {
+                        unchangedCount++
+                    }
+                }
+            }
+        }
+        catch (error) {
+            console.error("AI Link Enhancer error:", error)
+            failure = error instanceof Error ? error.message : String(error)
+        }
+        finally {
+            notice.hide()
+            await this.updateAIDecisionCache((latest) => {
+                Object.assign(latest, recorded)
+                return Object.keys(recorded).length > 0
+            })
+        }
+
+        if (failure !== undefined) {
+            new Notice(`AI Link Enhancement failed after changing ${changes.length} notes in ${scope}. Check console for details.`)
+            // Without changes there is nothing to review
+            if (changes.length === 0) return
+        }
+        else {
+            new Notice(`AI Link Enhancement changed ${changes.length} notes in ${scope}.`)
+        }
+
+        const report = await this.app.vault.create(
+            this.getAvailableAIReportPath(startedAt),
+            renderAIEnhancementReport({
+                scope,
+                startedAt,
+                changes,
+                unchangedCount,
+                skippedCount,
+                cancelled: abortController.signal.aborted,
+                error: failure,
+            }),
+        )
+        await this.app.workspace.getLeaf(true).openFile(report)
+    }
+
+    private getAvailableAIReportPath(startedAt: Date): string {
+        for (let attempt = 0; ; attempt++) {
+            const path = normalizePath(getAIReportFileName(startedAt, attempt))
+            if (!this.app.vault.getAbstractFileByPath(path)) return path
+        }
+    }
+
+    /**
+     * Fetches the titles of the URLs in the active note that are not cached yet.
+     * With `force`, cached titles and failures are fetched again.
+     */
+    async buildUrlTitleMap({ force = false }: { force?: boolean } = {}) {
         const activeFile = this.app.workspace.getActiveFile()
         if (!activeFile) return
         const metadata = this.app.metadataCache.getFileCache(activeFile)?.frontmatter
-        if (isUrlTitleReplacementOff(metadata)) return
 
         const fileContent = await this.app.vault.read(activeFile)
         const { contentStart } = getFrontMatterInfo(fileContent)
-        const body = fileContent.slice(contentStart)
+        const urls = this.collectUrlsForTitles(activeFile.path, fileContent.slice(contentStart), metadata)
+        await this.fetchUrlTitlesFor(urls, { force })
+    }
 
-        const urls = listupAllUrls(body, this.settings.replaceUrlWithTitleIgnoreDomains)
-        for (const url of urls) {
-            if (this.urlTitleMap.has(url)) continue
+    /**
+     * Fetches the titles of the URLs in the given notes, waiting for every title and
+     * reporting progress, for runs over many files.
+     */
+    private async buildUrlTitleMapForFiles(files: TFile[]) {
+        if (!this.settings.replaceUrlWithTitle) return
+
+        const urls = new Set<string>()
+        for (const file of files) {
+            const fileContent = await this.app.vault.cachedRead(file)
+            const { contentStart } = getFrontMatterInfo(fileContent)
+            const fileUrls = this.collectUrlsForTitles(file.path, fileContent.slice(contentStart), this.getFrontmatter(file))
+            fileUrls.forEach(url => urls.add(url))
+        }
+        await this.fetchUrlTitlesFor([...urls], { budgetMs: 0, showProgress: true })
+    }
 
-            try {
-                const response = await request(url)
-                const title = getTitleFromHtml(response)
+    /**
+     * Returns the bare URLs of a note whose titles should be fetched, following the
+     * note's settings and its "automatic-linker-disable-url-title" flag.
+     */
+    private collectUrlsForTitles(
+        filePath: string,
+        body: string,
+        frontmatter?: Record<string, unknown>,
+    ): string[] {
+        if (isFolderProfileOff(this.settings, filePath) || isUrlTitleReplacementOff(frontmatter)) return []
+        const settings = this.getSettingsForFile(filePath, frontmatter)
+        if (!settings.replaceUrlWithTitle) return []
+        return [...listupAllUrls(body, settings.replaceUrlWithTitleIgnoreDomains)]
+    }
+
+    private async fetchUrlTitlesFor(
+        urls: string[],
+        {
+            force = false,
+            budgetMs = this.settings.urlTitleFetchBudgetMs,
+            showProgress = false,
+        }: { force?: boolean, budgetMs?: number, showProgress?: boolean } = {},
+    ) {
+        const urlsToFetch = urls.filter((url) => {
+            if (this.pendingUrlTitleFetches.has(url)) return false
+            const cached = this.urlTitleCache[url]
+            return force || !cached || !isUrlTitleCacheEntryFresh(cached, Date.now(), this.settings)
+        })
+        if (urlsToFetch.length === 0) return
+
+        const progressNotice = showProgress ? new Notice("", 0) : null
+        let settledCount = 0
+        const updateProgress = () => {
+            progressNotice?.setMessage(`Automatic Linker: Fetched ${settledCount}/${urlsToFetch.length} URL titles.`)
+        }
+        updateProgress()
+
+        urlsToFetch.forEach(url => this.pendingUrlTitleFetches.add(url))
+        this.updateUrlTitleStatus()
+        await fetchUrlTitles({
+            urls: urlsToFetch,
+            fetchTitle: async (url) => {
+                const response = await requestUrl({ url })
+                const html = decodeHtmlResponse(response.arrayBuffer, response.headers)
+                return getTitleFromHtml(html, {
+                    url,
+                    cleanupRules: this.settings.urlTitleCleanupRules,
+                })
+            },
+            concurrency: this.settings.urlTitleFetchConcurrency,
+            timeoutMs: this.settings.urlTitleFetchTimeoutMs,
+            budgetMs,
+            onSettled: (result) => {
+                this.recordUrlTitleFetch(result)
+                settledCount++
+                updateProgress()
+            },
+        })
+        progressNotice?.hide()
+    }
 
-                if (title) {
-                    this.urlTitleMap.set(url, title)
+    /**
+     * Stores the outcome of a title fetch, which may arrive after formatting went ahead
+     * without it, and saves the cache once no fetch is pending.
+     */
+    private recordUrlTitleFetch(result: UrlTitleFetchResult) {
+        const { url } = result
+        if ("title" in result && result.title) {
+            recordUrlTitle(this.urlTitleCache, url, result.title, Date.now())
+            this.urlTitleMap.set(url, result.title)
+        }
+        else {
+            recordUrlTitleFailure(this.urlTitleCache, url, Date.now())
+            if (this.settings.debug) {
+                if ("error" in result) {
+                    console.warn(`Automatic Linker: Failed to fetch URL title for: ${url}`, result.error)
                 }
                 else {
-                    if (this.settings.debug) {
-                        console.warn(`Automatic Linker: No title found for URL: ${url}`)
-                    }
-                }
-            }
-            catch (error) {
-                if (this.settings.debug) {
-                    console.warn(`Automatic Linker: Failed to fetch URL title for: ${url}`, error)
+                    console.warn(`Automatic Linker: No title found for URL: ${url}`)
                 }
             }
         }
+
+        this.pendingUrlTitleFetches.delete(url)
+        this.updateUrlTitleStatus()
+        if (this.pendingUrlTitleFetches.size === 0) {
+            runAsyncSafely(() => this.getUrlTitleCacheStore().save(this.urlTitleCache))
+        }
+    }
+
+    private updateUrlTitleStatus() {
+        const pending = this.pendingUrlTitleFetches.size
+        this.urlTitleStatusBarItem?.setText(
+            pending > 0 ? `Automatic Linker: fetching ${pending} URL title${pending === 1 ? "" : "s"}` : "",
+        )
+    }
+
+    private getUrlTitleCacheStore(): JsonDataStore<UrlTitleCache> {
+        return this.createDataStore("url-title-cache.json", () => ({}))
+    }
+
+    private async loadUrlTitleCache() {
+        this.urlTitleCache = await this.getUrlTitleCacheStore().load()
+        if (pruneUrlTitleCache(this.urlTitleCache, Date.now(), this.settings)) {
+            await this.getUrlTitleCacheStore().save(this.urlTitleCache)
+        }
+        this.urlTitleMap = toUrlTitleMap(this.urlTitleCache)
+    }
+
+    async clearUrlTitleCache() {
+        this.urlTitleCache = {}
+        this.urlTitleMap = new Map()
+        await this.getUrlTitleCacheStore().save(this.urlTitleCache)
+        new Notice("Automatic Linker: Cleared the URL title cache.")
+    }
+
+    /**
+     * Fetches the titles of the URLs in the active note again and formats the note.
+     */
+    async refreshUrlTitlesForActiveFile() {
+        await this.buildUrlTitleMap({ force: true })
+        this.modifyLinksForActiveFile()
     }
 
     async formatThenRunPrettierAndLinter() {
@@ -230,58 +880,169 @@ export default class AutomaticLinkerPlugin extends Plugin {
         const selectedText = cm.getSelection()
 
         if (!this.trie || !this.candidateMap) return
+        if (isFolderProfileOff(this.settings, activeFile.path)) return
+
+        const frontmatter = this.getFrontmatter(activeFile)
+        await this.fetchUrlTitlesFor(this.collectUrlsForTitles(activeFile.path, selectedText, frontmatter))
+        // The selection may have changed while titles were fetched
+        if (cm.getSelection() !== selectedText) return
 
         const linkGenerator = this.createLinkGenerator(activeFile.path)
-        const baseDir = this.settings.respectNewFileFolderPath ? this.app.vault.getConfig("newFileFolderPath") : undefined
+        const baseDir = this.getBaseDir()
+        // Ignore markers are found in the whole note, since they may lie outside the selection
+        const selectionStart = cm.posToOffset(cm.getCursor("from"))
         const updatedText = formatMarkdownSelection({
             body: selectedText,
+            ignoredRanges: getIgnoreRegionRanges(cm.getValue(), selectionStart, selectionStart + selectedText.length),
             filePath: activeFile.path,
-            settings: this.settings,
+            frontmatter,
+            settings: this.getSettingsForFile(activeFile.path, frontmatter),
             baseDir,
             candidateIndex: {
                 trie: this.trie,
                 candidateMap: this.candidateMap,
             },
+            urlTitleMap: this.urlTitleMap,
             linkGenerator,
         })
         cm.replaceSelection(updatedText)
     }
 
-    refreshFileDataAndTrie() {
-        const allMarkdownFiles = this.app.vault.getMarkdownFiles()
-        const allFiles: PathAndAliases[] = allMarkdownFiles
-            .filter((file) => {
-                // Filter out files in excluded directories
-                const path = file.path.replace(/\.md$/, "")
-                return !this.settings.excludeDirsFromAutoLinking.some((excludeDir) => {
-                    return (path.startsWith(excludeDir + "/") || path === excludeDir)
-                })
-            })
-            .map((file) => {
-                // Remove the .md extension
-                const path = file.path.replace(/\.md$/, "")
-                const metadata = this.app.metadataCache.getFileCache(file)?.frontmatter
-                const scoped = isNamespaceScoped(metadata)
-                // if this property exists, prevent this file from being linked from other files
-                const exclude = isLinkingExcluded(metadata)
-
-                const aliases = (() => {
-                    if (this.settings.includeAliases) {
-                        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter
-                        const aliases = parseFrontMatterAliases(frontmatter)
-                        return aliases
-                    }
-                    else {
-                        return null
-                    }
-                })()
-                return {
-                    path,
-                    aliases,
-                    scoped,
-                    exclude,
-                }
+    private createDataStore<T>(fileName: string, createDefault: () => T): JsonDataStore<T> {
+        return createJsonDataStore(
+            this.app.vault.adapter,
+            `${this.manifest.dir}/${fileName}`,
+            createDefault,
+        )
+    }
+
+    private getLinkReviewStore(): JsonDataStore<Record<string, string[]>> {
+        return this.createDataStore("link-review-rejections.json", () => ({}))
+    }
+
+    getLinkSuggestions(file: TFile, body: string): LinkSuggestion[] {
+        if (isFolderProfileOff(this.settings, file.path)) return []
+        if (!this.trie || !this.candidateMap) {
+            this.refreshFileDataAndTrie()
+        }
+        if (!this.trie || !this.candidateMap) return []
+
+        return collectLinkSuggestions({
+            body,
+            filePath: file.path.replace(/\.md$/, ""),
+            trie: this.trie,
+            candidateMap: this.candidateMap,
+            settings: toReplaceLinksSettings(
+                this.getSettingsForFile(file.path, this.getFrontmatter(file)),
+                this.getBaseDir(),
+            ),
+            rejectedPhrases: this.linkReviewRejections[file.path] ?? [],
+        })
+    }
+
+    /**
+     * Writes accepted link suggestions into the file.
+     * Returns false without touching the file if its body no longer matches the reviewed body.
+     */
+    async applyLinkSuggestions(
+        file: TFile,
+        reviewedBody: string,
+        decisions: LinkSuggestionDecision[],
+    ): Promise<boolean> {
+        let applied = false
+        await this.app.vault.process(file, (content) => {
+            const { contentStart } = getFrontMatterInfo(content)
+            const body = content.slice(contentStart)
+            if (body.normalize("NFC") !== reviewedBody.normalize("NFC")) {
+                return content
+            }
+
+            applied = true
+            return content.slice(0, contentStart) + applyLinkSuggestions({
+                body,
+                filePath: file.path.replace(/\.md$/, ""),
+                decisions,
+                settings: toReplaceLinksSettings(
+                    this.getSettingsForFile(file.path, this.getFrontmatter(file)),
+                    this.getBaseDir(),
+                ),
+                linkGenerator: this.createLinkGenerator(file.path),
             })
+        })
+        return applied
+    }
+
+    async rejectLinkSuggestionPhrase(file: TFile, phrase: string) {
+        const rejected = this.linkReviewRejections[file.path] ?? []
+        if (!rejected.includes(phrase)) {
+            this.linkReviewRejections[file.path] = [...rejected, phrase]
+            await this.getLinkReviewStore().save(this.linkReviewRejections)
+        }
+    }
+
+    private moveLinkReviewRejections(oldPath: string, newPath: string | null) {
+        const rejected = this.linkReviewRejections[oldPath]
+        if (!rejected) return
+
+        delete this.linkReviewRejections[oldPath]
+        if (newPath !== null) {
+            this.linkReviewRejections[newPath] = rejected
+        }
+        runAsyncSafely(() => this.getLinkReviewStore().save(this.linkReviewRejections))
+    }
+
+    async activateLinkReviewView() {
+        const { workspace } = this.app
+        let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(LINK_REVIEW_VIEW_TYPE)[0] ?? null
+        if (!leaf) {
+            leaf = workspace.getRightLeaf(false)
+            await leaf?.setViewState({ type: LINK_REVIEW_VIEW_TYPE, active: true })
+        }
+        if (leaf) {
+            await workspace.revealLeaf(leaf)
+        }
+    }
+
+    private getBaseDir(): string | undefined {
+        return this.settings.respectNewFileFolderPath ? this.app.vault.getConfig("newFileFolderPath") : undefined
+    }
+
+    /**
+     * Builds the Trie entry for a markdown file, or null if the file lives in an excluded directory.
+     */
+    private toPathAndAliases(file: TFile): PathAndAliases | null {
+        // Remove the .md extension
+        const path = file.path.replace(/\.md$/, "")
+        const isExcludedDir = this.settings.excludeDirsFromAutoLinking.some((excludeDir) => {
+            return (path.startsWith(excludeDir + "/") || path === excludeDir)
+        })
+        if (isExcludedDir) return null
+
+        const metadata = this.app.metadataCache.getFileCache(file)?.frontmatter
+        const scoped = isNamespaceScoped(metadata)
+        // if this property exists, prevent this file from being linked from other files
+        const exclude = isLinkingExcluded(metadata)
+        const aliases = this.settings.includeAliases
+            ? parseFrontMatterAliases(metadata)
+            : null
+        const minLength = getMinLengthOverride(metadata)
+        return {
+            path,
+            aliases,
+            scoped,
+            exclude,
+            ...(minLength !== undefined ? { minLength } : {}),
+        }
+    }
+
+    refreshFileDataAndTrie() {
+        const allFiles: PathAndAliases[] = []
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const pathAndAliases = this.toPathAndAliases(file)
+            if (pathAndAliases) {
+                allFiles.push(pathAndAliases)
+            }
+        }
         // Sort filenames in descending order (longer paths first)
         allFiles.sort((a, b) => b.path.length - a.path.length)
 
@@ -290,10 +1051,10 @@ export default class AutomaticLinkerPlugin extends Plugin {
         }
 
         // Build candidateMap and Trie using the helper function.
-        const baseDir = this.settings.respectNewFileFolderPath ? this.app.vault.getConfig("newFileFolderPath") : undefined
-        const { candidateMap, trie } = buildCandidateTrie(allFiles, baseDir, this.settings.ignoreCase ?? false)
+        const { candidateMap, trie } = buildCandidateTrie(allFiles, this.getBaseDir(), this.settings.ignoreCase ?? false)
         this.candidateMap = candidateMap
         this.trie = trie
+        this.indexedFiles = new Map(allFiles.map(file => [file.path, file]))
 
         if (this.settings.showNotice) {
             new Notice(`Automatic Linker: Loaded all markdown files. (${allFiles.length} files)`)
@@ -303,6 +1064,72 @@ export default class AutomaticLinkerPlugin extends Plugin {
         }
     }
 
+    /**
+     * Applies a single-file change to the Trie instead of rebuilding it from every markdown file.
+     * @param removedPath - Path (with .md) whose previous registration should be dropped.
+     * @param addedFile - File whose current state should be registered.
+     */
+    private updateFileDataAndTrie(removedPath: string | null, addedFile: TFile | null) {
+        if (!this.trie || !this.candidateMap) {
+            this.refreshFileDataAndTrie()
+            return
+        }
+
+        const baseDir = this.getBaseDir()
+        const ignoreCase = this.settings.ignoreCase ?? false
+
+        if (removedPath !== null) {
+            const key = removedPath.replace(/\.md$/, "")
+            const registered = this.indexedFiles.get(key)
+            if (registered) {
+                removeFileFromCandidateTrie(this.trie, this.candidateMap, registered, baseDir, ignoreCase)
+                this.indexedFiles.delete(key)
+            }
+        }
+
+        if (addedFile) {
+            const pathAndAliases = this.toPathAndAliases(addedFile)
+            if (pathAndAliases) {
+                addFileToCandidateTrie(this.trie, this.candidateMap, pathAndAliases, baseDir, ignoreCase)
+                this.indexedFiles.set(pathAndAliases.path, pathAndAliases)
+            }
+        }
+
+        if (this.settings.debug) {
+            console.log(`Automatic Linker: Updated Trie (removed: ${removedPath}, added: ${addedFile?.path ?? null})`)
+        }
+    }
+
+    private isMarkdownFile(file: TAbstractFile): file is TFile {
+        return file instanceof TFile && file.extension === "md"
+    }
+
+    private onFileCreated(file: TAbstractFile) {
+        if (!this.isMarkdownFile(file)) return
+        // Notes created by the plugin may already be registered
+        this.updateFileDataAndTrie(file.path, file)
+    }
+
+    private onFileDeleted(file: TAbstractFile) {
+        if (!this.isMarkdownFile(file)) return
+        this.frontmatterCache.delete(file.path)
+        this.moveLinkReviewRejections(file.path, null)
+        runAsyncSafely(() => this.updateAIDecisionCache(cache => moveNoteDecisions(cache, file.path, null)))
+        this.updateFileDataAndTrie(file.path, null)
+    }
+
+    private onFileRenamed(file: TAbstractFile, oldPath: string) {
+        if (!this.isMarkdownFile(file)) return
+        const cachedHash = this.frontmatterCache.get(oldPath)
+        this.frontmatterCache.delete(oldPath)
+        if (cachedHash !== undefined) {
+            this.frontmatterCache.set(file.path, cachedHash)
+        }
+        this.moveLinkReviewRejections(oldPath, file.path)
+        runAsyncSafely(() => this.updateAIDecisionCache(cache => moveNoteDecisions(cache, oldPath, file.path)))
+        this.updateFileDataAndTrie(oldPath, file)
+    }
+
     private refreshFileDataAndTrieOnFrontmatterChange(file: TFile) {
         const metadata = this.app.metadataCache.getFileCache(file)?.frontmatter
 
@@ -311,19 +1138,20 @@ export default class AutomaticLinkerPlugin extends Plugin {
             aliases: metadata?.aliases ? JSON.stringify(metadata.aliases) : undefined,
             scoped: isNamespaceScoped(metadata),
             exclude: isLinkingExcluded(metadata),
+            minLength: getMinLengthOverride(metadata),
         }
 
         // Create a hash of the relevant fields
         const currentHash = JSON.stringify(relevantFields)
         const cachedHash = this.frontmatterCache.get(file.path)
 
-        // If the hash has changed, refresh the Trie
+        // If the hash has changed, re-register the file in the Trie
         if (currentHash !== cachedHash) {
             this.frontmatterCache.set(file.path, currentHash)
-            this.refreshFileDataAndTrie()
+            this.updateFileDataAndTrie(file.path, file)
 
             if (this.settings.debug) {
-                console.log(`Automatic Linker: Refreshing Trie due to frontmatter change in ${file.path}`)
+                console.log(`Automatic Linker: Updating Trie due to frontmatter change in ${file.path}`)
             }
         }
     }
@@ -331,26 +1159,30 @@ export default class AutomaticLinkerPlugin extends Plugin {
     onload() {
         runAsyncSafely(async () => {
             await this.loadSettings()
+            this.linkReviewRejections = await this.getLinkReviewStore().load()
+            await this.loadUrlTitleCache()
             this.initializePlugin()
         })
     }
 
     private initializePlugin() {
         this.addSettingTab(new AutomaticLinkerPluginSettingsTab(this.app, this))
+        this.urlTitleStatusBarItem = this.addStatusBarItem()
+        this.registerView(LINK_REVIEW_VIEW_TYPE, leaf => new LinkReviewView(leaf, this))
 
         // Load file data and build the Trie when the layout is ready.
         this.app.workspace.onLayoutReady(() => {
             this.refreshFileDataAndTrie()
 
             this.registerEvent(
-                this.app.vault.on("delete", () => this.refreshFileDataAndTrie()),
+                this.app.vault.on("delete", file => this.onFileDeleted(file)),
             )
             this.registerEvent(
-                this.app.vault.on("create", () => this.refreshFileDataAndTrie()),
+                this.app.vault.on("create", file => this.onFileCreated(file)),
             )
             this.registerEvent(
-                this.app.vault.on("rename", () =>
-                    this.refreshFileDataAndTrie(),
+                this.app.vault.on("rename", (file, oldPath) =>
+                    this.onFileRenamed(file, oldPath),
                 ),
             )
             this.registerEvent(
@@ -373,6 +1205,34 @@ export default class AutomaticLinkerPlugin extends Plugin {
             },
         })
 
+        this.addCommand({
+            id: "refresh-url-titles",
+            name: "Refresh URL titles in current file",
+            icon: "refresh-cw",
+            editorCallback: async () => {
+                try {
+                    await this.refreshUrlTitlesForActiveFile()
+                }
+                catch (error) {
+                    console.error(error)
+                }
+            },
+        })
+
+        this.addCommand({
+            id: "clear-url-title-cache",
+            name: "Clear URL title cache",
+            icon: "trash-2",
+            callback: async () => {
+                try {
+                    await this.clearUrlTitleCache()
+                }
+                catch (error) {
+                    console.error(error)
+                }
+            },
+        })
+
         this.addCommand({
             id: "format-vault",
             name: "Format vault",
@@ -387,6 +1247,34 @@ export default class AutomaticLinkerPlugin extends Plugin {
             },
         })
 
+        this.addCommand({
+            id: "format-vault-preview",
+            name: "Format vault (preview changes)",
+            icon: "file-diff",
+            editorCallback: async () => {
+                try {
+                    await this.previewFormatVault()
+                }
+                catch (error) {
+                    console.error(error)
+                }
+            },
+        })
+
+        this.addCommand({
+            id: "revert-last-vault-format",
+            name: "Revert last vault format",
+            icon: "undo-2",
+            callback: async () => {
+                try {
+                    await this.revertLastVaultFormat()
+                }
+                catch (error) {
+                    console.error(error)
+                }
+            },
+        })
+
         this.addCommand({
             id: "rebuild-index",
             name: "Rebuild index",
@@ -414,6 +1302,20 @@ export default class AutomaticLinkerPlugin extends Plugin {
             },
         })
 
+        this.addCommand({
+            id: "open-link-review",
+            name: "Review link suggestions",
+            icon: "list-checks",
+            callback: async () => {
+                try {
+                    await this.activateLinkReviewView()
+                }
+                catch (error) {
+                    console.error(error)
+                }
+            },
+        })
+
         this.addCommand({
             id: "copy-file-without-links",
             name: "Copy file without links",
@@ -466,11 +1368,29 @@ export default class AutomaticLinkerPlugin extends Plugin {
                 const activeFile = this.app.workspace.getActiveFile()
                 if (!activeFile) return
 
+                // "Cancel" discards every result; "Stop and apply" keeps those of finished batches
+                const abortController = new AbortController()
+                let applyOnCancel = false
+                let completedBatches = 0
+                let totalBatches = 0
+
                 const noticeFragment = activeDocument.createDocumentFragment()
                 const container = noticeFragment.createEl("div")
-                container.createEl("div", { text: "AI Link Enhancer: Analyzing context..." })
+                const status = container.createEl("div", { text: "AI Link Enhancer: Analyzing context..." })
                 const progress = container.createEl("progress")
                 progress.setAttr("style", "width: 100%; height: 10px;")
+                const buttons = container.createEl("div")
+                const addCancelButton = (text: string, apply: boolean) => {
+                    buttons.createEl("button", { text }).addEventListener("click", (event) => {
+                        // Keep the notice open until the run stops
+                        event.stopPropagation()
+                        applyOnCancel = apply
+                        abortController.abort()
+                        status.setText("AI Link Enhancer: Stopping...")
+                    })
+                }
+                addCancelButton("Stop and apply", true)
+                addCancelButton("Cancel", false)
                 const notice = new Notice(noticeFragment, 0)
 
                 try {
@@ -478,9 +1398,8 @@ export default class AutomaticLinkerPlugin extends Plugin {
                     const { contentStart } = getFrontMatterInfo(fileContent)
                     const body = fileContent.slice(contentStart)
                     const normalizedActiveFilePath = activeFile.path.replace(/\.md$/, "")
-                    const baseDir = this.settings.respectNewFileFolderPath
-                        ? this.app.vault.getConfig("newFileFolderPath")
-                        : undefined
+                    const baseDir = this.getBaseDir()
+                    const settings = this.getSettingsForFile(activeFile.path, this.getFrontmatter(activeFile))
 
                     if (!this.candidateMap || !this.trie) {
                         this.refreshFileDataAndTrie()
@@ -495,11 +1414,27 @@ export default class AutomaticLinkerPlugin extends Plugin {
                         body,
                         this.candidateMap,
                         this.trie,
-                        this.settings,
+                        settings,
                         normalizedActiveFilePath,
                         baseDir,
+                        {
+                            signal: abortController.signal,
+                            onProgress: (completed, total) => {
+                                completedBatches = completed
+                                totalBatches = total
+                                progress.max = total
+                                progress.value = completed
+                                status.setText(`AI Link Enhancer: Resolved ${completed}/${total} batches...`)
+                            },
+                        },
                     )
 
+                    const cancelled = abortController.signal.aborted
+                    if (cancelled && !applyOnCancel) {
+                        new Notice("AI Link Enhancement cancelled.")
+                        return
+                    }
+
                     const resultBody = replaceLinks({
                         body,
                         linkResolverContext: {
@@ -508,7 +1443,7 @@ export default class AutomaticLinkerPlugin extends Plugin {
                             candidateMap: this.candidateMap,
                         },
                         settings: toReplaceLinksSettings(
-                            this.settings,
+                            settings,
                             baseDir,
                         ),
                         resolvedAmbiguities: resolvedAmbiguitiesResult,
@@ -516,7 +1451,9 @@ export default class AutomaticLinkerPlugin extends Plugin {
 
                     if (body !== resultBody) {
                         updateEditor(body, resultBody, editor)
-                        new Notice("AI Link Enhancement completed.")
+                        new Notice(cancelled
+                            ? `AI Link Enhancement stopped. Applied results of ${completedBatches}/${totalBatches} batches.`
+                            : "AI Link Enhancement completed.")
                     }
                     else {
                         new Notice("No links to enhance.")
@@ -532,6 +1469,31 @@ export default class AutomaticLinkerPlugin extends Plugin {
             },
         })
 
+        this.addCommand({
+            id: "ai-link-enhancer-folder",
+            name: "Run AI Link Enhancer on folder",
+            icon: "sparkles",
+            callback: () => {
+                new FolderSuggestModal(this.app, (folder) => {
+                    runAsyncSafely(() => this.enhanceLinksWithAIInFolder(folder))
+                }).open()
+            },
+        })
+
+        this.addCommand({
+            id: "ai-link-enhancer-vault",
+            name: "Run AI Link Enhancer on vault",
+            icon: "sparkles",
+            callback: async () => {
+                try {
+                    await this.enhanceLinksWithAIInFolder(this.app.vault.getRoot())
+                }
+                catch (error) {
+                    console.error(error)
+                }
+            },
+        })
+
         // Optionally, override the default save command to run modifyLinks (throttled).
         const saveCommandDefinition = this.app?.commands?.commands?.["editor:save-file"]
         const saveCallback = saveCommandDefinition?.checkCallback
@@ -11,6 +11,7 @@ export type MarkdownProtectedKind = "inline-code"
     | "heading"
     | "callout"
     | "table-row"
+    | "ignore-region"
 
 export interface MarkdownSegment {
     kind: MarkdownSegmentKind
@@ -146,6 +147,63 @@ const collectFencedCodeRanges = (text: string): ProtectedRange[] => {
     return ranges
 }
 
+const IGNORE_MARKER_PREFIX = "automatic-linker:"
+const IGNORE_MARKER_PATTERN = /<!--[ \t]*automatic-linker:(off|on|ignore-line)[ \t]*-->/g
+
+/**
+ * Collects regions disabled with HTML comment markers:
+ * everything from `<!-- automatic-linker:off -->` through the next
+ * `<!-- automatic-linker:on -->` (or the end of the text), and every line
+ * containing `<!-- automatic-linker:ignore-line -->`.
+ * Markers inside fenced code blocks are ignored.
+ */
+const collectIgnoreRegionRanges = (
+    text: string,
+    fencedCodeRanges: ProtectedRange[],
+): ProtectedRange[] => {
+    if (!text.includes(IGNORE_MARKER_PREFIX)) {
+        return []
+    }
+
+    const ranges: ProtectedRange[] = []
+    const markerPattern = new RegExp(IGNORE_MARKER_PATTERN.source, "g")
+    let regionStart: number | null = null
+    let match: RegExpExecArray | null
+
+    while ((match = markerPattern.exec(text)) !== null) {
+        if (isInsideRanges(match.index, fencedCodeRanges)) {
+            continue
+        }
+
+        const marker = match[1]
+        const markerEnd = match.index + match[0].length
+        if (marker === "off") {
+            regionStart ??= match.index
+        }
+        else if (marker === "on") {
+            if (regionStart !== null) {
+                ranges.push({ start: regionStart, end: markerEnd, protectedKind: "ignore-region" })
+                regionStart = null
+            }
+        }
+        else if (regionStart === null) {
+            const lineStart = text.lastIndexOf("\n", match.index - 1) + 1
+            const lineEnd = text.indexOf("\n", markerEnd)
+            ranges.push({
+                start: lineStart,
+                end: lineEnd === -1 ? text.length : lineEnd,
+                protectedKind: "ignore-region",
+            })
+        }
+    }
+
+    if (regionStart !== null) {
+        ranges.push({ start: regionStart, end: text.length, protectedKind: "ignore-region" })
+    }
+
+    return ranges
+}
+
 const buildProtectedPattern = (protectUrls: boolean): RegExp => {
     const parts = [
         "`[^`]*`",
@@ -212,6 +270,7 @@ export const segmentMarkdown = (
     options: SegmentMarkdownOptions = {},
 ): MarkdownSegment[] => {
     const mayContainProtectedMarkdown = text.includes("`")
+        || text.includes(IGNORE_MARKER_PREFIX)
         || text.includes("~")
         || text.includes("[")
         || (options.protectHeadings && text.includes("#"))
@@ -243,7 +302,9 @@ export const segmentMarkdown = (
         ranges.push(...collectTableRowRanges(text))
     }
 
-    ranges.push(...collectFencedCodeRanges(text))
+    const fencedCodeRanges = collectFencedCodeRanges(text)
+    ranges.push(...fencedCodeRanges)
+    ranges.push(...collectIgnoreRegionRanges(text, fencedCodeRanges))
 
     const protectedPattern = buildProtectedPattern(options.protectUrls ?? false)
     let match: RegExpExecArray | null
@@ -296,6 +357,23 @@ export const segmentMarkdown = (
     return segments
 }
 
+/**
+ * Returns the ignore-marker regions of a document that overlap `start`..`end`,
+ * clipped to that span and relative to `start`, so that a part of the document
+ * (e.g. an editor selection) can honour markers placed outside of it.
+ */
+export const getIgnoreRegionRanges = (
+    text: string,
+    start = 0,
+    end = text.length,
+): Array<{ start: number, end: number }> =>
+    collectIgnoreRegionRanges(text, collectFencedCodeRanges(text))
+        .filter(range => range.start < end && range.end > start)
+        .map(range => ({
+            start: Math.max(range.start, start) - start,
+            end: Math.min(range.end, end) - start,
+        }))
+
 export const mapMarkdownProse = (
     text: string,
     transform: (segmentText: string, segment: MarkdownSegment) => string,
@@ -3,4 +3,6 @@ export type PathAndAliases = {
     aliases: string[] | null
     scoped: boolean
     exclude?: boolean
+    // Minimum match length for this note's candidates, from "automatic-linker-min-length"
+    minLength?: number
 }
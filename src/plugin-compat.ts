@@ -13,3 +13,19 @@ export function runAsyncSafely(
 ): void {
     void task().catch(onError)
 }
+
+/**
+ * Resolves with undefined instead of failing when the vault reports that the
+ * file or folder being created already exists.
+ */
+export async function ignoreAlreadyExists<T>(creation: Promise<T>): Promise<T | undefined> {
+    try {
+        return await creation
+    }
+    catch (error) {
+        if (error instanceof Error && /already exists/i.test(error.message)) {
+            return undefined
+        }
+        throw error
+    }
+}
@@ -18,7 +18,7 @@ describe("replaceLinks with AI disambiguation", () => {
 
     it("should use the AI-resolved path for unlinked words", () => {
         const body = "I have a meeting."
-        const resolvedAmbiguities = new Map([["meeting", "work/meeting"]])
+        const resolvedAmbiguities = new Map([[9, "work/meeting"]])
 
         const result = replaceLinks({
             body,
@@ -31,7 +31,7 @@ describe("replaceLinks with AI disambiguation", () => {
 
     it("should correct existing links if resolvedAmbiguities contains them", () => {
         const body = "Check [[private/meeting|meeting]] notes."
-        const resolvedAmbiguities = new Map([["[[private/meeting|meeting]]", "work/meeting"]])
+        const resolvedAmbiguities = new Map([[6, "work/meeting"]])
 
         const result = replaceLinks({
             body,
@@ -44,8 +44,7 @@ describe("replaceLinks with AI disambiguation", () => {
 
     it("should handle existing links without alias for correction", () => {
         const body = "Check [[private/meeting]] notes."
-        // The resolveAmbiguities scanner uses the full link as key
-        const resolvedAmbiguities = new Map([["[[private/meeting]]", "work/meeting"]])
+        const resolvedAmbiguities = new Map([[6, "work/meeting"]])
 
         const result = replaceLinks({
             body,
@@ -56,6 +55,40 @@ describe("replaceLinks with AI disambiguation", () => {
         expect(result).toBe("Check [[work/meeting|private/meeting]] notes.")
     })
 
+    it("applies each resolution only at its own occurrence", () => {
+        const body = "The meeting at work. The meeting at home. The meeting."
+        const resolvedAmbiguities = new Map([
+            [4, "work/meeting"],
+            [25, "private/meeting"],
+        ])
+
+        const result = replaceLinks({
+            body,
+            linkResolverContext: context,
+            resolvedAmbiguities,
+        })
+
+        expect(result).toBe(
+            "The [[work/meeting|meeting]] at work. The [[private/meeting|meeting]] at home. The [[work/meeting|meeting]].",
+        )
+    })
+
+    it("keeps offsets of later occurrences after correcting an earlier link", () => {
+        const body = "[[private/meeting]] and the meeting"
+        const resolvedAmbiguities = new Map([
+            [0, "work/meeting"],
+            [28, "private/meeting"],
+        ])
+
+        const result = replaceLinks({
+            body,
+            linkResolverContext: context,
+            resolvedAmbiguities,
+        })
+
+        expect(result).toBe("[[work/meeting|private/meeting]] and the [[private/meeting|meeting]]")
+    })
+
     it("should honor AI-resolved Korean suffix choices", () => {
         const koreanFiles = [
             { path: "work/문서", scoped: false, aliases: [] },
@@ -67,7 +100,7 @@ describe("replaceLinks with AI disambiguation", () => {
             true,
         )
         const body = "문서이다."
-        const resolvedAmbiguities = new Map([["문서", "private/문서"]])
+        const resolvedAmbiguities = new Map([[0, "private/문서"]])
 
         const result = replaceLinks({
             body,
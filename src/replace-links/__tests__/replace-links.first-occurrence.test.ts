@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest"
+import { replaceLinks, ReplaceLinksSettings } from "../replace-links"
+import { buildCandidateTrieForTest } from "./test-helpers"
+
+describe("replaceLinks - link first occurrence only", () => {
+    const { candidateMap, trie } = buildCandidateTrieForTest({
+        files: [{ path: "TypeScript" }, { path: "tools/Vitest" }],
+        settings: { scoped: false, baseDir: undefined, ignoreCase: true },
+    })
+
+    const run = (body: string, settings: ReplaceLinksSettings) =>
+        replaceLinks({
+            body,
+            linkResolverContext: { filePath: "notes/today", trie, candidateMap },
+            settings: { ignoreCase: true, proximityBasedLinking: true, ...settings },
+        })
+
+    it("links every occurrence by default", () => {
+        expect(run("TypeScript and TypeScript", {}))
+            .toBe("[[TypeScript]] and [[TypeScript]]")
+    })
+
+    it("links only the first occurrence of each target", () => {
+        expect(run("typescript, Vitest\n\nTypeScript and vitest", { linkFirstOccurrenceOnly: true }))
+            .toBe("[[typescript]], [[tools/Vitest|Vitest]]\n\nTypeScript and vitest")
+    })
+
+    it("counts existing wikilinks as already linked", () => {
+        expect(run("TypeScript after [[TypeScript|TS]] and [[tools/Vitest]] Vitest", { linkFirstOccurrenceOnly: true }))
+            .toBe("TypeScript after [[TypeScript|TS]] and [[tools/Vitest]] Vitest")
+    })
+
+    it("links the first occurrence in every section when enabled", () => {
+        const body = "# One\nTypeScript TypeScript\n## Two\n[[TypeScript]]\nTypeScript\n## Three\nTypeScript"
+
+        expect(run(body, { linkFirstOccurrenceOnly: true, linkFirstOccurrencePerSection: true }))
+            .toBe("# One\n[[TypeScript]] TypeScript\n## Two\n[[TypeScript]]\nTypeScript\n## Three\n[[TypeScript]]")
+        expect(run(body, { linkFirstOccurrenceOnly: true }))
+            .toBe("# One\nTypeScript TypeScript\n## Two\n[[TypeScript]]\nTypeScript\n## Three\nTypeScript")
+    })
+
+    it("keeps counting across table rows", () => {
+        expect(run("| TypeScript |\n| --- |\n| TypeScript |", { linkFirstOccurrenceOnly: true }))
+            .toBe("| [[TypeScript]] |\n| --- |\n| TypeScript |")
+    })
+})
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+import { buildIgnoredTermMatcher } from "../ignore-terms"
+import { replaceLinks } from "../replace-links"
+import { buildCandidateTrieForTest } from "./test-helpers"
+
+describe("replaceLinks - ignored terms", () => {
+    const files = [{ path: "Go" }, { path: "UI" }, { path: "TypeScript" }, { path: "v2" }]
+
+    const run = (body: string, settings: { ignoreCase?: boolean, ignoreTerms?: string[] }) => {
+        const { candidateMap, trie } = buildCandidateTrieForTest({
+            files,
+            settings: { scoped: false, baseDir: undefined, ignoreCase: settings.ignoreCase },
+        })
+        return replaceLinks({
+            body,
+            linkResolverContext: { filePath: "notes/today", trie, candidateMap },
+            settings,
+        })
+    }
+
+    it("does not link ignored terms", () => {
+        expect(run("Go and TypeScript", { ignoreTerms: ["Go"] }))
+            .toBe("Go and [[TypeScript]]")
+    })
+
+    it("matches ignored terms case-insensitively when ignoreCase is enabled", () => {
+        expect(run("go and ui", { ignoreCase: true, ignoreTerms: ["GO"] }))
+            .toBe("go and [[ui]]")
+    })
+
+    it("matches ignored terms exactly when ignoreCase is disabled", () => {
+        expect(run("Go and TypeScript", { ignoreTerms: ["go"] }))
+            .toBe("[[Go]] and [[TypeScript]]")
+    })
+
+    it("supports regular expressions matched against the whole term", () => {
+        expect(run("Go, UI, v2 and TypeScript", { ignoreTerms: ["/[A-Z]{2}|v\\d+/"] }))
+            .toBe("[[Go]], UI, v2 and [[TypeScript]]")
+    })
+})
+
+describe("buildIgnoredTermMatcher", () => {
+    it("skips invalid regular expressions", () => {
+        const matcher = buildIgnoredTermMatcher(["/(/", "Go"])
+
+        expect(matcher("Go")).toBe(true)
+        expect(matcher("(")).toBe(false)
+    })
+
+    it("reuses the matcher for the same terms", () => {
+        const terms = ["Go"]
+
+        expect(buildIgnoredTermMatcher(terms, true)).toBe(buildIgnoredTermMatcher(terms, true))
+        expect(buildIgnoredTermMatcher(terms, true)).not.toBe(buildIgnoredTermMatcher(terms, false))
+    })
+})
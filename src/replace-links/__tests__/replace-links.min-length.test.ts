@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest"
+import { replaceLinks, ReplaceLinksSettings } from "../replace-links"
+import { buildCandidateTrieForTest } from "./test-helpers"
+
+describe("replaceLinks - minimum length and stop words", () => {
+    const run = (
+        body: string,
+        settings: ReplaceLinksSettings,
+        files: { path: string, aliases?: string[], minLength?: number }[] = [
+            { path: "Go" },
+            { path: "UI" },
+            { path: "It" },
+            { path: "TypeScript" },
+            { path: "東京" },
+            { path: "京" },
+        ],
+    ) => {
+        const { candidateMap, trie } = buildCandidateTrieForTest({
+            files,
+            settings: { scoped: false, baseDir: undefined, ignoreCase: true },
+        })
+        return replaceLinks({
+            body,
+            linkResolverContext: { filePath: "notes/today", trie, candidateMap },
+            settings: { ignoreCase: true, ...settings },
+        })
+    }
+
+    it("skips Latin candidates shorter than the minimum length", () => {
+        expect(run("Go UI TypeScript", { minCandidateLength: 3 }))
+            .toBe("Go UI [[TypeScript]]")
+    })
+
+    it("uses a separate minimum length for CJK candidates", () => {
+        expect(run("東京と京", { minCandidateLength: 3, minCjkCandidateLength: 2 }))
+            .toBe("[[東京]]と京")
+    })
+
+    it("skips stop words of the selected languages", () => {
+        expect(run("It is Go", { stopWordLanguages: ["en"] }))
+            .toBe("It is Go")
+        expect(run("It is Go", {}))
+            .toBe("[[It]] is [[Go]]")
+    })
+
+    it("lets a note opt back in with its own minimum length", () => {
+        const files = [{ path: "Go", minLength: 2 }, { path: "UI" }, { path: "lang/Go", minLength: 0 }]
+
+        expect(run("Go UI", { minCandidateLength: 3, stopWordLanguages: ["en"] }, files.slice(0, 2)))
+            .toBe("[[Go]] UI")
+        expect(run("go", { minCandidateLength: 3, proximityBasedLinking: true }, files.slice(2)))
+            .toBe("[[lang/Go|go]]")
+    })
+})
@@ -101,7 +101,10 @@ note1
                 ...settings,
                 ignoreMarkdownTables: true,
             },
-            resolvedAmbiguities: new Map([["[[note1]]", "ns/note1|note1"]]),
+            resolvedAmbiguities: new Map([
+                [1, "ns/note1|note1"],
+                [43, "ns/note1|note1"],
+            ]),
         })
         expect(result).toBe(`
 [[ns/note1|note1]]
@@ -132,7 +135,7 @@ note1
             },
             settings,
             resolvedAmbiguities: new Map([
-                ["[[note1]]", "very/long/path/note1|note1"],
+                [0, "very/long/path/note1|note1"],
             ]),
         })
         expect(result).toBe(`[[very/long/path/note1|note1]]
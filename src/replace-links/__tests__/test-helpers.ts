@@ -6,7 +6,7 @@ export const buildCandidateTrieForTest = ({
     settings: { scoped, baseDir, ignoreCase },
     excludeDirs = [],
 }: {
-    files: { path: string, aliases?: string[], exclude?: boolean }[]
+    files: { path: string, aliases?: string[], exclude?: boolean, minLength?: number }[]
     settings: {
         scoped: boolean
         baseDir: string | undefined
@@ -27,11 +27,12 @@ export const buildCandidateTrieForTest = ({
     const sortedFiles: PathAndAliases[] = filteredFiles
         .slice()
         .sort((a, b) => b.path.length - a.path.length)
-        .map(({ path, aliases, exclude }) => ({
+        .map(({ path, aliases, exclude, minLength }) => ({
             path,
             aliases: aliases || null,
             scoped,
             exclude,
+            minLength,
         }))
 
     const { candidateMap, trie } = buildCandidateTrie(
@@ -1,6 +1,14 @@
-import { CandidateData, getTopLevelDirectoryName, TrieNode } from "../trie"
+import {
+    CandidateData,
+    CandidateItem,
+    getCandidateMapRevision,
+    getTopLevelDirectoryName,
+    TrieNode,
+} from "../trie"
 import { RAW_URL_AT_START_PATTERN, RAW_URL_SOURCE } from "../markdown-protection"
 import { isMarkdownTableLine, segmentMarkdown } from "../markdown-segments"
+import { buildIgnoredTermMatcher } from "./ignore-terms"
+import { isStopWord } from "./stop-words"
 import type { ReplaceLinksSettings } from "./replace-links"
 
 export type CandidateOccurrenceKind = "unlinked" | "existing-wikilink"
@@ -82,18 +90,24 @@ export const isSentenceStart = (text: string, index: number): boolean => {
 
 const fallbackIndexCache = new WeakMap<
     Map<string, CandidateData>,
-    Map<string, Map<string, Array<[string, CandidateData]>>>
+    {
+        revision: number
+        indexes: Map<string, Map<string, Array<[string, CandidateData]>>>
+    }
 >()
 
 export const buildFallbackIndex = (
     candidateMap: Map<string, CandidateData>,
     ignoreCase?: boolean,
 ): Map<string, Array<[string, CandidateData]>> => {
-    let cacheForMap = fallbackIndexCache.get(candidateMap)
-    if (!cacheForMap) {
-        cacheForMap = new Map()
-        fallbackIndexCache.set(candidateMap, cacheForMap)
+    const revision = getCandidateMapRevision(candidateMap)
+    let cacheEntry = fallbackIndexCache.get(candidateMap)
+    if (!cacheEntry || cacheEntry.revision !== revision) {
+        // The candidate map was updated in place; drop indexes built from the old contents.
+        cacheEntry = { revision, indexes: new Map() }
+        fallbackIndexCache.set(candidateMap, cacheEntry)
     }
+    const cacheForMap = cacheEntry.indexes
 
     const cacheKey = ignoreCase ? "ignoreCase" : "normal"
     const cached = cacheForMap.get(cacheKey)
@@ -246,9 +260,42 @@ export const shouldSkipCandidate = (
     ) {
         return true
     }
+    if (
+        settings.ignoreTerms
+        && settings.ignoreTerms.length > 0
+        && buildIgnoredTermMatcher(settings.ignoreTerms, settings.ignoreCase)(candidate)
+    ) {
+        return true
+    }
     return isMonthNote(candidate)
 }
 
+/**
+ * Checks the minimum length and stop-word settings for a matched candidate.
+ * A target note that sets its own minimum length opts out of both settings.
+ */
+export const isTooShortOrStopWord = (
+    candidate: string,
+    items: readonly CandidateItem[],
+    settings: ReplaceLinksSettings,
+): boolean => {
+    const length = Array.from(candidate).length
+    const noteMinLengths = items
+        .map(item => item.minLength)
+        .filter((minLength): minLength is number => minLength !== undefined)
+    if (noteMinLengths.length > 0) {
+        return length < Math.min(...noteMinLengths)
+    }
+
+    const minLength = isCjkCandidate(candidate)
+        ? settings.minCjkCandidateLength
+        : settings.minCandidateLength
+    if (minLength !== undefined && length < minLength) {
+        return true
+    }
+    return isStopWord(candidate, settings.stopWordLanguages)
+}
+
 export const isIndexInsideMarkdownTable = (text: string, index: number): boolean => {
     let lineStart = text.lastIndexOf("\n", index - 1) + 1
     if (lineStart === 0 && text[0] !== "\n") {
@@ -456,6 +503,14 @@ const collectFallbackOccurrence = ({
             continue
         }
 
+        if (isTooShortOrStopWord(
+            potentialMatch,
+            candidateList.flatMap(([, data]) => data.candidates),
+            settings,
+        )) {
+            continue
+        }
+
         longestMatch = {
             word: potentialMatch,
             length,
@@ -603,6 +658,13 @@ export const scanUnlinkedCandidateAt = ({
         const candidateData = candidateMap.get(trieCandidateKey)
 
         if (candidateData) {
+            if (isTooShortOrStopWord(candidate, candidateData.candidates, settings)) {
+                return {
+                    action: "skip",
+                    end: startIndex + candidate.length,
+                }
+            }
+
             if (isSelfLink(candidateData, filePath, settings)) {
                 return {
                     action: "skip",
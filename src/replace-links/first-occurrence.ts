@@ -0,0 +1,74 @@
+import { segmentMarkdown } from "../markdown-segments"
+import { CandidateData } from "../trie"
+import { extractLinkParts, normalizeCanonicalPath } from "./candidate-scanner"
+import type { ReplaceLinksSettings } from "./replace-links"
+
+/**
+ * Remembers which targets are already linked so that only the first
+ * occurrence of each target (per note or per section) becomes a link.
+ */
+export interface FirstOccurrenceTracker {
+    // Returns true when the target was not linked yet in the scope of index, and records it
+    claim: (linkPath: string, index: number) => boolean
+}
+
+const EXISTING_WIKILINK_PATTERN = /^\[\[([^|\]#]+)(?:#[^|\]]*)?(?:\|[^\]]+)?\]\]$/
+
+// Obsidian resolves links case-insensitively
+const toTargetKey = (linkPath: string, baseDir?: string): string =>
+    normalizeCanonicalPath(linkPath, baseDir).toLowerCase()
+
+const resolveExistingLinkTarget = (
+    path: string,
+    candidateMap: Map<string, CandidateData>,
+    settings: ReplaceLinksSettings,
+): string => {
+    const candidateKey = settings.ignoreCase ? path.toLowerCase() : path
+    const candidate = (candidateMap.get(candidateKey) ?? candidateMap.get(path))?.candidates[0]
+    return candidate ? extractLinkParts(candidate.canonical).linkPath : path
+}
+
+export const createFirstOccurrenceTracker = (
+    body: string,
+    candidateMap: Map<string, CandidateData>,
+    settings: ReplaceLinksSettings,
+): FirstOccurrenceTracker => {
+    const sectionStarts = settings.linkFirstOccurrencePerSection
+        ? segmentMarkdown(body, { protectHeadings: true })
+                .filter(segment => segment.protectedKind === "heading")
+                .map(segment => segment.start)
+        : []
+
+    const getSection = (index: number): number => {
+        let section = 0
+        while (section < sectionStarts.length && sectionStarts[section] <= index) {
+            section++
+        }
+        return section
+    }
+
+    const linkedTargets = new Set<string>()
+    const toScopedKey = (linkPath: string, index: number): string =>
+        `${getSection(index)}:${toTargetKey(linkPath, settings.baseDir)}`
+
+    for (const segment of segmentMarkdown(body)) {
+        if (segment.protectedKind !== "wikilink") continue
+
+        const match = segment.text.match(EXISTING_WIKILINK_PATTERN)
+        if (!match) continue
+
+        const target = resolveExistingLinkTarget(match[1].trim(), candidateMap, settings)
+        linkedTargets.add(toScopedKey(target, segment.start))
+    }
+
+    return {
+        claim: (linkPath, index) => {
+            const key = toScopedKey(linkPath, index)
+            if (linkedTargets.has(key)) {
+                return false
+            }
+            linkedTargets.add(key)
+            return true
+        },
+    }
+}
@@ -0,0 +1,72 @@
+export type IgnoredTermMatcher = (candidate: string) => boolean
+
+const REGEX_TERM_PATTERN = /^\/(.+)\/([a-z]*)$/
+
+/**
+ * Check if a term is written as a /pattern/flags regular expression
+ */
+export const isRegexTerm = (term: string): boolean => REGEX_TERM_PATTERN.test(term.trim())
+
+const matcherCache = new WeakMap<readonly string[], Map<string, IgnoredTermMatcher>>()
+
+const compileRegexTerm = (
+    source: string,
+    flags: string,
+    ignoreCase: boolean,
+): RegExp | null => {
+    const normalizedFlags = Array.from(new Set(
+        (flags + (ignoreCase ? "i" : "")).replace(/[gy]/g, ""),
+    )).join("")
+    try {
+        // Terms describe the whole candidate, not a part of it
+        return new RegExp(`^(?:${source})$`, normalizedFlags)
+    }
+    catch (_error) {
+        return null
+    }
+}
+
+/**
+ * Builds a matcher for terms that must never be linked.
+ * Terms written as /pattern/flags are regular expressions matched against the
+ * whole candidate; other terms match exactly, ignoring case when requested.
+ * Invalid regular expressions are skipped.
+ */
+export const buildIgnoredTermMatcher = (
+    terms: readonly string[],
+    ignoreCase = false,
+): IgnoredTermMatcher => {
+    const cacheKey = ignoreCase ? "ignoreCase" : "normal"
+    const cached = matcherCache.get(terms)?.get(cacheKey)
+    if (cached) return cached
+
+    const plainTerms = new Set<string>()
+    const patterns: RegExp[] = []
+    for (const rawTerm of terms) {
+        const term = rawTerm.trim()
+        if (term === "") continue
+
+        const regexMatch = term.match(REGEX_TERM_PATTERN)
+        if (regexMatch) {
+            const pattern = compileRegexTerm(regexMatch[1], regexMatch[2], ignoreCase)
+            if (pattern) {
+                patterns.push(pattern)
+            }
+            continue
+        }
+        plainTerms.add(ignoreCase ? term.toLowerCase() : term)
+    }
+
+    const matcher: IgnoredTermMatcher = (candidate) => {
+        const normalized = ignoreCase ? candidate.toLowerCase() : candidate
+        return plainTerms.has(normalized) || patterns.some(pattern => pattern.test(candidate))
+    }
+
+    let cacheForTerms = matcherCache.get(terms)
+    if (!cacheForTerms) {
+        cacheForTerms = new Map()
+        matcherCache.set(terms, cacheForTerms)
+    }
+    cacheForTerms.set(cacheKey, matcher)
+    return matcher
+}
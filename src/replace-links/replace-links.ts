@@ -10,6 +10,10 @@ import {
     normalizeCanonicalPath,
     scanUnlinkedCandidateAt,
 } from "./candidate-scanner"
+import {
+    createFirstOccurrenceTracker,
+    FirstOccurrenceTracker,
+} from "./first-occurrence"
 
 // Types for the replaceLinks function
 export interface LinkResolverContext {
@@ -28,6 +32,17 @@ export interface ReplaceLinksSettings {
     removeAliasInDirs?: string[]
     ignoreHeadings?: boolean
     ignoreMarkdownTables?: boolean
+    // Terms (or /regex/flags) that are never linked
+    ignoreTerms?: string[]
+    // Link only the first occurrence of each target, counting existing links
+    linkFirstOccurrenceOnly?: boolean
+    // With linkFirstOccurrenceOnly, start over after every heading
+    linkFirstOccurrencePerSection?: boolean
+    // Minimum candidate length in characters for Latin and CJK text
+    minCandidateLength?: number
+    minCjkCandidateLength?: number
+    // Languages whose stop words are never linked (e.g. "en")
+    stopWordLanguages?: string[]
 }
 
 export interface LinkGeneratorParams {
@@ -44,9 +59,13 @@ export interface ReplaceLinksOptions {
     linkResolverContext: LinkResolverContext
     settings?: ReplaceLinksSettings
     linkGenerator?: LinkGenerator
-    resolvedAmbiguities?: Map<string, string>
+    // Paths picked for ambiguous occurrences, keyed by the occurrence's offset in the body
+    resolvedAmbiguities?: Map<number, string>
 }
 
+// Looks up the path picked for the occurrence at an offset of the text being processed
+type AmbiguityResolver = (offset: number) => string | undefined
+
 // Helper function to check if a path should have its alias removed
 const shouldRemoveAlias = (
     normalizedPath: string,
@@ -72,7 +91,7 @@ const shouldRemoveAlias = (
 }
 
 // Link Content Creation
-const createLinkContent = (
+export const createLinkContent = (
     candidateData: CandidateData,
     originalMatchedText: string,
     settings: ReplaceLinksSettings = {},
@@ -152,10 +171,9 @@ const resolveLinkContent = (
     candidateData: CandidateData,
     originalMatchedText: string,
     settings: ReplaceLinksSettings,
-    resolvedAmbiguities?: Map<string, string>,
+    resolvedPath?: string,
 ): { linkPath: string, alias?: string } => {
-    if (resolvedAmbiguities?.has(originalMatchedText)) {
-        const resolvedPath = resolvedAmbiguities.get(originalMatchedText)!
+    if (resolvedPath !== undefined) {
         const parts = extractLinkParts(resolvedPath)
         return {
             linkPath: parts.linkPath,
@@ -192,6 +210,38 @@ export const defaultLinkGenerator: LinkGenerator = ({
     return escapeLinkForMarkdownTable(`[[${linkContent}]]`, isInTable)
 }
 
+/**
+ * Renders the link for a single candidate occurrence, optionally pinned to one
+ * of its candidates (e.g. a target picked by the user).
+ */
+export const renderCandidateLink = ({
+    candidateData,
+    matchedText,
+    filePath,
+    settings = {},
+    linkGenerator = defaultLinkGenerator,
+    isInTable,
+}: {
+    candidateData: CandidateData
+    matchedText: string
+    filePath: string
+    settings?: ReplaceLinksSettings
+    linkGenerator?: LinkGenerator
+    isInTable?: boolean
+}): string => {
+    const { linkPath, alias } = createLinkContent(
+        candidateData,
+        matchedText,
+        settings,
+    )
+    return linkGenerator({
+        linkPath,
+        sourcePath: filePath,
+        alias,
+        isInTable,
+    })
+}
+
 // Processing functions for different text types
 const processCjkText = (
     text: string,
@@ -201,8 +251,10 @@ const processCjkText = (
     filePath: string,
     linkGenerator: LinkGenerator,
     settings: ReplaceLinksSettings = {},
-    resolvedAmbiguities?: Map<string, string>,
+    resolveAmbiguity?: AmbiguityResolver,
     forceIsInTable?: boolean,
+    occurrenceTracker?: FirstOccurrenceTracker,
+    textOffset = 0,
 ): string => {
     // For CJK texts that might contain non-CJK terms like "taro-san", ensure we use a consistent approach
     // Pass the proper filePath to maintain correct namespace resolution
@@ -215,8 +267,10 @@ const processCjkText = (
         currentNamespace,
         linkGenerator,
         settings,
-        resolvedAmbiguities,
+        resolveAmbiguity,
         forceIsInTable,
+        occurrenceTracker,
+        textOffset,
     )
 }
 
@@ -229,8 +283,11 @@ const processStandardText = (
     currentNamespace: string,
     linkGenerator: LinkGenerator,
     settings: ReplaceLinksSettings = {},
-    resolvedAmbiguities?: Map<string, string>,
+    resolveAmbiguity?: AmbiguityResolver,
     forceIsInTable?: boolean,
+    occurrenceTracker?: FirstOccurrenceTracker,
+    // Offset of text within the body, used to place occurrences in sections
+    textOffset = 0,
 ): string => {
     let result = ""
     let i = 0
@@ -261,8 +318,16 @@ const processStandardText = (
                 candidateData,
                 occurrence.text,
                 settings,
-                resolvedAmbiguities,
+                resolveAmbiguity?.(textOffset + occurrence.start),
             )
+            if (
+                occurrenceTracker
+                && !occurrenceTracker.claim(linkPath, textOffset + occurrence.start)
+            ) {
+                result += occurrence.text
+                i = occurrence.end
+                continue
+            }
             const finalLink = linkGenerator({
                 linkPath,
                 sourcePath: filePath,
@@ -319,11 +384,11 @@ export const replaceLinks = ({
         wikilink: string,
         start: number,
     ): string => {
-        if (!resolvedAmbiguities?.has(wikilink)) {
+        const resolvedPath = resolvedAmbiguities?.get(start)
+        if (resolvedPath === undefined) {
             return wikilink
         }
 
-        const resolvedPath = resolvedAmbiguities.get(wikilink)!
         const { linkPath, alias: resolvedAlias } = extractLinkParts(resolvedPath)
         const existingLinkRegex = /\[\[([^|\]]+)(?:\|([^\]]+))?\]\]/
         const linkMatch = wikilink.match(existingLinkRegex)
@@ -341,9 +406,13 @@ export const replaceLinks = ({
     }
 
     // Process segments of text
+    let occurrenceTracker: FirstOccurrenceTracker | undefined
+    let resolveAmbiguity: AmbiguityResolver | undefined
+
     const processTextSegment = (
         text: string,
-        forceIsInTable?: boolean,
+        forceIsInTable: boolean | undefined,
+        textOffset: number,
     ): string => {
         // Check if the text contains CJK characters
         const hasCjkText = isCjkText(text)
@@ -357,8 +426,10 @@ export const replaceLinks = ({
                 filePath,
                 linkGenerator,
                 settings,
-                resolvedAmbiguities,
+                resolveAmbiguity,
                 forceIsInTable,
+                occurrenceTracker,
+                textOffset,
             )
         }
         else {
@@ -371,8 +442,10 @@ export const replaceLinks = ({
                 currentNamespace,
                 linkGenerator,
                 settings,
-                resolvedAmbiguities,
+                resolveAmbiguity,
                 forceIsInTable,
+                occurrenceTracker,
+                textOffset,
             )
         }
     }
@@ -384,7 +457,7 @@ export const replaceLinks = ({
         if (!text.includes("\n")) {
             const isInTable = !settings.ignoreMarkdownTables
                 && isIndexInsideMarkdownTable(bodyWithResolvedWikilinks, segment.start)
-            return processTextSegment(text, isInTable)
+            return processTextSegment(text, isInTable, segment.start)
         }
 
         return text.replace(/[^\n]*(?:\n|$)/g, (line, offset) => {
@@ -404,23 +477,49 @@ export const replaceLinks = ({
             const isInTable = !settings.ignoreMarkdownTables
                 && isIndexInsideMarkdownTable(bodyWithResolvedWikilinks, absoluteIndex)
 
-            return processTextSegment(line, isInTable)
+            return processTextSegment(line, isInTable, absoluteIndex)
         })
     }
 
     if (resolvedAmbiguities) {
+        // Corrected wikilinks change the body length, so offsets of later text are
+        // mapped back to the original body before looking up their resolution
+        const offsetShifts: Array<{ start: number, delta: number }> = []
+        let delta = 0
         bodyWithResolvedWikilinks = segmentMarkdown(body, markdownOptions)
             .map((segment) => {
                 if (
                     segment.kind === "protected"
                     && segment.protectedKind === "wikilink"
                 ) {
-                    return replaceResolvedWikilink(segment.text, segment.start)
+                    const replaced = replaceResolvedWikilink(segment.text, segment.start)
+                    if (replaced.length !== segment.text.length) {
+                        delta += replaced.length - segment.text.length
+                        offsetShifts.push({ start: segment.end + delta, delta })
+                    }
+                    return replaced
                 }
 
                 return segment.text
             })
             .join("")
+
+        resolveAmbiguity = (offset) => {
+            let shiftDelta = 0
+            for (const shift of offsetShifts) {
+                if (shift.start > offset) break
+                shiftDelta = shift.delta
+            }
+            return resolvedAmbiguities.get(offset - shiftDelta)
+        }
+    }
+
+    if (settings.linkFirstOccurrenceOnly) {
+        occurrenceTracker = createFirstOccurrenceTracker(
+            bodyWithResolvedWikilinks,
+            candidateMap,
+            settings,
+        )
     }
 
     return mapMarkdownProse(
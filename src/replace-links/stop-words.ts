@@ -0,0 +1,62 @@
+/**
+ * Common words that are rarely meant as links, per language code.
+ * Candidates are compared case-insensitively.
+ */
+export const STOP_WORDS: Record<string, readonly string[]> = {
+    en: [
+        "a", "about", "after", "all", "also", "an", "and", "any", "are", "as", "at",
+        "be", "because", "been", "but", "by", "can", "could", "do", "does", "for",
+        "from", "go", "had", "has", "have", "he", "her", "here", "him", "his", "how",
+        "i", "if", "in", "into", "is", "it", "its", "just", "me", "more", "my", "no",
+        "not", "now", "of", "on", "one", "or", "our", "out", "she", "so", "some",
+        "than", "that", "the", "their", "them", "then", "there", "these", "they",
+        "this", "to", "up", "us", "was", "we", "were", "what", "when", "where",
+        "which", "who", "why", "will", "with", "would", "you", "your",
+    ],
+    de: [
+        "aber", "als", "am", "an", "auch", "auf", "aus", "bei", "bin", "bis", "da",
+        "das", "dass", "dem", "den", "der", "des", "die", "doch", "du", "ein", "eine",
+        "einem", "einen", "einer", "er", "es", "für", "hat", "ich", "ihr", "im", "in",
+        "ist", "ja", "mit", "nach", "nicht", "noch", "nur", "oder", "sie", "sind",
+        "so", "um", "und", "uns", "von", "vor", "war", "was", "wie", "wir", "zu",
+    ],
+    fr: [
+        "à", "au", "aux", "avec", "ce", "ces", "dans", "de", "des", "du", "elle",
+        "en", "est", "et", "il", "ils", "je", "la", "le", "les", "leur", "mais",
+        "me", "mon", "ne", "nous", "on", "ou", "par", "pas", "pour", "qui", "que",
+        "sa", "se", "son", "sur", "ta", "te", "tu", "un", "une", "vous",
+    ],
+    es: [
+        "a", "al", "como", "con", "de", "del", "el", "ella", "en", "es", "esta",
+        "este", "la", "las", "le", "lo", "los", "más", "me", "mi", "no", "nos",
+        "o", "para", "pero", "por", "que", "se", "si", "sin", "su", "sus", "te",
+        "tu", "un", "una", "y", "ya", "yo",
+    ],
+    ja: [
+        "あれ", "これ", "それ", "どれ", "ここ", "そこ", "あそこ", "この", "その", "あの",
+        "こと", "もの", "ため", "よう", "とき", "ところ", "する", "いる", "ある", "なる",
+        "私", "僕", "彼", "彼女",
+    ],
+}
+
+const stopWordSetCache = new Map<string, Set<string>>()
+
+const getStopWordSet = (languages: readonly string[]): Set<string> => {
+    const cacheKey = languages.join(",")
+    let stopWords = stopWordSetCache.get(cacheKey)
+    if (!stopWords) {
+        stopWords = new Set(
+            languages.flatMap(language => STOP_WORDS[language.trim().toLowerCase()] ?? []),
+        )
+        stopWordSetCache.set(cacheKey, stopWords)
+    }
+    return stopWords
+}
+
+export const isStopWord = (
+    candidate: string,
+    languages: readonly string[] | undefined,
+): boolean => {
+    if (!languages || languages.length === 0) return false
+    return getStopWordSet(languages).has(candidate.toLowerCase())
+}
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { fetchUrlTitles, UrlTitleFetchResult } from "../fetch-url-titles"
+
+const delay = <T>(ms: number, value: T): Promise<T> =>
+    new Promise(resolve => setTimeout(() => resolve(value), ms))
+
+describe("fetchUrlTitles", () => {
+    beforeEach(() => {
+        vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    it("keeps at most `concurrency` requests in flight", async () => {
+        let inFlight = 0
+        let maxInFlight = 0
+        const results: UrlTitleFetchResult[] = []
+        const done = fetchUrlTitles({
+            urls: ["a", "b", "c", "d", "e"],
+            fetchTitle: async (url) => {
+                inFlight++
+                maxInFlight = Math.max(maxInFlight, inFlight)
+                await delay(100, null)
+                inFlight--
+                return `title ${url}`
+            },
+            concurrency: 2,
+            timeoutMs: 0,
+            budgetMs: 0,
+            onSettled: result => results.push(result),
+        })
+
+        await vi.runAllTimersAsync()
+        await done
+
+        expect(maxInFlight).toBe(2)
+        expect(results).toEqual(["a", "b", "c", "d", "e"].map(url => ({ url, title: `title ${url}` })))
+    })
+
+    it("reports requests that exceed the timeout as failed", async () => {
+        const results: UrlTitleFetchResult[] = []
+        const done = fetchUrlTitles({
+            urls: ["slow", "fast"],
+            fetchTitle: url => delay(url === "slow" ? 10_000 : 10, url),
+            concurrency: 2,
+            timeoutMs: 1000,
+            budgetMs: 0,
+            onSettled: result => results.push(result),
+        })
+
+        await vi.runAllTimersAsync()
+        await done
+
+        expect(results).toEqual([
+            { url: "fast", title: "fast" },
+            { url: "slow", error: new Error("Timed out after 1000 ms") },
+        ])
+    })
+
+    it("keeps the slot of a timed out request busy until the request finishes", async () => {
+        let inFlight = 0
+        let maxInFlight = 0
+        const results: UrlTitleFetchResult[] = []
+        const done = fetchUrlTitles({
+            urls: ["hanging", "a", "b"],
+            fetchTitle: async (url) => {
+                inFlight++
+                maxInFlight = Math.max(maxInFlight, inFlight)
+                await delay(url === "hanging" ? 10_000 : 100, null)
+                inFlight--
+                return url
+            },
+            concurrency: 1,
+            timeoutMs: 1000,
+            budgetMs: 0,
+            onSettled: result => results.push(result),
+        })
+
+        await vi.advanceTimersByTimeAsync(1000)
+        expect(results).toEqual([{ url: "hanging", error: new Error("Timed out after 1000 ms") }])
+        expect(inFlight).toBe(1)
+
+        await vi.advanceTimersByTimeAsync(5000)
+        expect(results).toHaveLength(1)
+
+        await vi.runAllTimersAsync()
+        await done
+
+        expect(maxInFlight).toBe(1)
+        expect(results.map(result => result.url)).toEqual(["hanging", "a", "b"])
+    })
+
+    it("resolves when the budget runs out and keeps fetching in the background", async () => {
+        const results: UrlTitleFetchResult[] = []
+        let isResolved = false
+        void fetchUrlTitles({
+            urls: ["a", "b", "c"],
+            fetchTitle: url => delay(url === "a" ? 100 : 5000, url),
+            concurrency: 3,
+            timeoutMs: 0,
+            budgetMs: 1000,
+            onSettled: result => results.push(result),
+        }).then(() => {
+            isResolved = true
+        })
+
+        await vi.advanceTimersByTimeAsync(1000)
+        expect(isResolved).toBe(true)
+        expect(results).toEqual([{ url: "a", title: "a" }])
+
+        await vi.advanceTimersByTimeAsync(4000)
+        expect(results.map(result => result.url)).toEqual(["a", "b", "c"])
+    })
+
+    it("resolves right away when there is nothing to fetch", async () => {
+        const onSettled = vi.fn()
+        await fetchUrlTitles({
+            urls: [],
+            fetchTitle: async () => "",
+            concurrency: 4,
+            timeoutMs: 1000,
+            budgetMs: 1000,
+            onSettled,
+        })
+
+        expect(onSettled).not.toHaveBeenCalled()
+    })
+})
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest"
+import {
+    isUrlTitleCacheEntryFresh,
+    pruneUrlTitleCache,
+    recordUrlTitle,
+    recordUrlTitleFailure,
+    toUrlTitleMap,
+    UrlTitleCache,
+} from "../url-title-cache"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MINUTE_MS = 60 * 1000
+
+describe("url title cache", () => {
+    const settings = {
+        urlTitleCacheTtlDays: 30,
+        urlTitleRetryMinutes: 60,
+    }
+
+    it("keeps titles until the TTL expires", () => {
+        const cache: UrlTitleCache = {}
+        recordUrlTitle(cache, "https://example.com", "Example", 0)
+
+        expect(isUrlTitleCacheEntryFresh(cache["https://example.com"], 29 * DAY_MS, settings)).toBe(true)
+        expect(isUrlTitleCacheEntryFresh(cache["https://example.com"], 30 * DAY_MS, settings)).toBe(false)
+    })
+
+    it("keeps titles forever when the TTL is 0", () => {
+        const cache: UrlTitleCache = {}
+        recordUrlTitle(cache, "https://example.com", "Example", 0)
+
+        expect(isUrlTitleCacheEntryFresh(
+            cache["https://example.com"],
+            1000 * DAY_MS,
+            { ...settings, urlTitleCacheTtlDays: 0 },
+        )).toBe(true)
+    })
+
+    it("retries failed URLs with an exponential backoff", () => {
+        const cache: UrlTitleCache = {}
+        recordUrlTitleFailure(cache, "https://example.com", 0)
+        expect(cache["https://example.com"]).toEqual({ fetchedAt: 0, failures: 1 })
+        expect(isUrlTitleCacheEntryFresh(cache["https://example.com"], 59 * MINUTE_MS, settings)).toBe(true)
+        expect(isUrlTitleCacheEntryFresh(cache["https://example.com"], 60 * MINUTE_MS, settings)).toBe(false)
+
+        recordUrlTitleFailure(cache, "https://example.com", 0)
+        expect(cache["https://example.com"]).toEqual({ fetchedAt: 0, failures: 2 })
+        expect(isUrlTitleCacheEntryFresh(cache["https://example.com"], 119 * MINUTE_MS, settings)).toBe(true)
+        expect(isUrlTitleCacheEntryFresh(cache["https://example.com"], 120 * MINUTE_MS, settings)).toBe(false)
+    })
+
+    it("caps the retry delay at a week", () => {
+        const entry = { fetchedAt: 0, failures: 30 }
+        expect(isUrlTitleCacheEntryFresh(entry, 7 * DAY_MS, settings)).toBe(false)
+    })
+
+    it("keeps a previously fetched title when a refresh fails", () => {
+        const cache: UrlTitleCache = {}
+        recordUrlTitle(cache, "https://example.com", "Example", 0)
+        recordUrlTitleFailure(cache, "https://example.com", DAY_MS)
+
+        expect(cache["https://example.com"]).toEqual({ title: "Example", fetchedAt: DAY_MS })
+    })
+
+    it("resets the failure count after a successful fetch", () => {
+        const cache: UrlTitleCache = {}
+        recordUrlTitleFailure(cache, "https://example.com", 0)
+        recordUrlTitle(cache, "https://example.com", "Example", MINUTE_MS)
+
+        expect(cache["https://example.com"]).toEqual({ title: "Example", fetchedAt: MINUTE_MS })
+    })
+
+    it("prunes stale entries and exposes titles as a map", () => {
+        const cache: UrlTitleCache = {}
+        recordUrlTitle(cache, "https://old.example.com", "Old", 0)
+        recordUrlTitle(cache, "https://new.example.com", "New", 40 * DAY_MS)
+        recordUrlTitleFailure(cache, "https://failed.example.com", 40 * DAY_MS)
+
+        expect(pruneUrlTitleCache(cache, 40 * DAY_MS, settings)).toBe(true)
+        expect(Object.keys(cache)).toEqual(["https://new.example.com", "https://failed.example.com"])
+        expect(toUrlTitleMap(cache)).toEqual(new Map([["https://new.example.com", "New"]]))
+        expect(pruneUrlTitleCache(cache, 40 * DAY_MS, settings)).toBe(false)
+    })
+
+    it("keeps failures after their retry time so the backoff keeps growing", () => {
+        const cache: UrlTitleCache = {}
+        recordUrlTitleFailure(cache, "https://failed.example.com", 0)
+        recordUrlTitleFailure(cache, "https://failed.example.com", 0)
+
+        expect(pruneUrlTitleCache(cache, 3 * DAY_MS, settings)).toBe(false)
+        expect(cache["https://failed.example.com"]).toEqual({ fetchedAt: 0, failures: 2 })
+
+        recordUrlTitleFailure(cache, "https://failed.example.com", 3 * DAY_MS)
+        expect(cache["https://failed.example.com"].failures).toBe(3)
+    })
+
+    it("forgets failures once they are too old to matter", () => {
+        const cache: UrlTitleCache = {}
+        recordUrlTitleFailure(cache, "https://failed.example.com", 0)
+
+        expect(pruneUrlTitleCache(cache, 27 * DAY_MS, settings)).toBe(false)
+        expect(pruneUrlTitleCache(cache, 28 * DAY_MS, settings)).toBe(true)
+        expect(cache).toEqual({})
+    })
+})
@@ -0,0 +1,105 @@
+export type UrlTitleFetchResult
+    = | { url: string, title: string }
+        | { url: string, error: unknown }
+
+export interface FetchUrlTitlesOptions {
+    urls: readonly string[]
+    // Resolves with the page title ("" when the page has none)
+    fetchTitle: (url: string) => Promise<string>
+    // Maximum number of requests in flight
+    concurrency: number
+    // Per-request timeout in milliseconds; 0 disables it
+    timeoutMs: number
+    // Time to wait for the whole batch in milliseconds; 0 waits for every request
+    budgetMs: number
+    // Called once per URL, including for requests that settle after the budget
+    onSettled: (result: UrlTitleFetchResult) => void
+}
+
+/**
+ * Settles with the promise, or rejects after `ms` milliseconds.
+ * The underlying request cannot be aborted; only the wait for it stops.
+ */
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
+    if (ms <= 0) return promise
+
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`Timed out after ${ms} ms`)), ms)
+        promise.then(
+            (value) => {
+                clearTimeout(timer)
+                resolve(value)
+            },
+            (error: unknown) => {
+                clearTimeout(timer)
+                reject(error)
+            },
+        )
+    })
+}
+
+/**
+ * Resolves when the promise settles or after `ms` milliseconds, whichever comes first.
+ */
+const waitAtMost = (promise: Promise<unknown>, ms: number): Promise<void> => {
+    if (ms <= 0) return promise.then(() => undefined)
+
+    return new Promise((resolve) => {
+        const timer = setTimeout(resolve, ms)
+        void promise.then(() => {
+            clearTimeout(timer)
+            resolve()
+        })
+    })
+}
+
+/**
+ * Fetches URL titles with at most `concurrency` requests at a time.
+ * A request that times out is reported as failed but keeps its slot until it
+ * actually finishes, so slow hosts never add requests beyond `concurrency`.
+ * Resolves when every URL is reported or when the budget runs out; the remaining
+ * requests keep running in the background and still report through `onSettled`.
+ */
+export const fetchUrlTitles = ({
+    urls,
+    fetchTitle,
+    concurrency,
+    timeoutMs,
+    budgetMs,
+    onSettled,
+}: FetchUrlTitlesOptions): Promise<void> => {
+    const queue = [...urls]
+    let remaining = queue.length
+    let resolveReported: () => void = () => undefined
+    const reported = new Promise<void>((resolve) => {
+        resolveReported = resolve
+    })
+    const report = (result: UrlTitleFetchResult) => {
+        onSettled(result)
+        remaining--
+        if (remaining === 0) resolveReported()
+    }
+
+    const runWorker = async () => {
+        let url: string | undefined
+        while ((url = queue.shift()) !== undefined) {
+            const request = fetchTitle(url)
+            try {
+                const title = await withTimeout(request, timeoutMs)
+                report({ url, title })
+            }
+            catch (error) {
+                report({ url, error })
+                await request.catch(() => undefined)
+            }
+        }
+    }
+
+    if (remaining === 0) return Promise.resolve()
+
+    const workerCount = Math.max(1, Math.min(concurrency, queue.length))
+    for (let i = 0; i < workerCount; i++) {
+        void runWorker()
+    }
+    return waitAtMost(reported, budgetMs)
+}
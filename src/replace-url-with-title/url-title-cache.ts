@@ -0,0 +1,108 @@
+/**
+ * A fetched URL title, or a failed fetch when `title` is missing.
+ * `failures` counts consecutive failures and drives the retry backoff.
+ */
+export interface UrlTitleCacheEntry {
+    title?: string
+    fetchedAt: number
+    failures?: number
+}
+
+export type UrlTitleCache = Record<string, UrlTitleCacheEntry>
+
+export interface UrlTitleCacheSettings {
+    // Days before a title is fetched again; 0 keeps titles forever
+    urlTitleCacheTtlDays: number
+    // Minutes before a failed URL is retried, doubled after every further failure
+    urlTitleRetryMinutes: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MINUTE_MS = 60 * 1000
+const MAX_RETRY_DELAY_MS = 7 * DAY_MS
+// Failures are forgotten only after this long, so the backoff survives restarts
+const MAX_FAILURE_AGE_MS = 4 * MAX_RETRY_DELAY_MS
+
+const getRetryDelay = (failures: number, settings: UrlTitleCacheSettings): number =>
+    Math.min(
+        settings.urlTitleRetryMinutes * MINUTE_MS * 2 ** Math.max(failures - 1, 0),
+        MAX_RETRY_DELAY_MS,
+    )
+
+/**
+ * Returns true while the entry can be used without fetching the URL again.
+ */
+export const isUrlTitleCacheEntryFresh = (
+    entry: UrlTitleCacheEntry,
+    now: number,
+    settings: UrlTitleCacheSettings,
+): boolean => {
+    const age = now - entry.fetchedAt
+    if (entry.title === undefined) {
+        return age < getRetryDelay(entry.failures ?? 1, settings)
+    }
+    return settings.urlTitleCacheTtlDays <= 0 || age < settings.urlTitleCacheTtlDays * DAY_MS
+}
+
+export const recordUrlTitle = (
+    cache: UrlTitleCache,
+    url: string,
+    title: string,
+    now: number,
+): void => {
+    cache[url] = { title, fetchedAt: now }
+}
+
+/**
+ * Records a failed fetch. A title fetched earlier is kept and retried after the regular TTL.
+ */
+export const recordUrlTitleFailure = (
+    cache: UrlTitleCache,
+    url: string,
+    now: number,
+): void => {
+    const previous = cache[url]
+    if (previous?.title !== undefined) {
+        cache[url] = { title: previous.title, fetchedAt: now }
+        return
+    }
+    cache[url] = { fetchedAt: now, failures: (previous?.failures ?? 0) + 1 }
+}
+
+const isStale = (
+    entry: UrlTitleCacheEntry,
+    now: number,
+    settings: UrlTitleCacheSettings,
+): boolean => {
+    if (entry.title === undefined) {
+        return now - entry.fetchedAt >= MAX_FAILURE_AGE_MS
+    }
+    return !isUrlTitleCacheEntryFresh(entry, now, settings)
+}
+
+/**
+ * Drops titles that are no longer fresh. Failures are kept after their retry time,
+ * so that their count keeps growing the backoff, until they are too old to matter.
+ * Returns true when something was removed.
+ */
+export const pruneUrlTitleCache = (
+    cache: UrlTitleCache,
+    now: number,
+    settings: UrlTitleCacheSettings,
+): boolean => {
+    let pruned = false
+    for (const [url, entry] of Object.entries(cache)) {
+        if (isStale(entry, now, settings)) {
+            delete cache[url]
+            pruned = true
+        }
+    }
+    return pruned
+}
+
+export const toUrlTitleMap = (cache: UrlTitleCache): Map<string, string> =>
+    new Map(
+        Object.entries(cache).flatMap(([url, entry]): [string, string][] =>
+            entry.title !== undefined ? [[url, entry.title]] : [],
+        ),
+    )
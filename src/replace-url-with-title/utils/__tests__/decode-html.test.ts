@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest"
+import { decodeHtmlResponse } from "../decode-html"
+
+const toArrayBuffer = (bytes: number[]): ArrayBuffer => new Uint8Array(bytes).buffer
+
+const asciiBytes = (text: string): number[] => Array.from(text, character => character.charCodeAt(0))
+
+describe("decodeHtmlResponse", () => {
+    it("decodes UTF-8 by default", () => {
+        const body = new TextEncoder().encode("<title>日本語</title>")
+        expect(decodeHtmlResponse(body.buffer as ArrayBuffer)).toBe("<title>日本語</title>")
+    })
+
+    it("uses the charset of the Content-Type header", () => {
+        // "café" in ISO-8859-1
+        const body = toArrayBuffer([...asciiBytes("<title>caf"), 0xE9, ...asciiBytes("</title>")])
+        expect(decodeHtmlResponse(body, { "Content-Type": "text/html; charset=ISO-8859-1" }))
+            .toBe("<title>café</title>")
+    })
+
+    it("uses the charset declared in the document", () => {
+        // "日本" in Shift_JIS
+        const body = toArrayBuffer([
+            ...asciiBytes("<meta charset=\"Shift_JIS\"><title>"),
+            0x93, 0xFA, 0x96, 0x7B,
+            ...asciiBytes("</title>"),
+        ])
+        expect(decodeHtmlResponse(body)).toBe("<meta charset=\"Shift_JIS\"><title>日本</title>")
+    })
+
+    it("falls back to UTF-8 for unknown charsets", () => {
+        const body = new TextEncoder().encode("<title>ok</title>")
+        expect(decodeHtmlResponse(body.buffer as ArrayBuffer, { "content-type": "text/html; charset=unknown" }))
+            .toBe("<title>ok</title>")
+    })
+})
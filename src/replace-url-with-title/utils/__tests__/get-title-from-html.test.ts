@@ -19,4 +19,55 @@ describe("getTitleFromHtml", () => {
         const result = getTitleFromHtml(html)
         expect(result).toBe("")
     })
+
+    it("should decode HTML entities", () => {
+        const html = "<title>Tom &amp; Jerry &#8211; &quot;Cartoons&quot; &#x1F600;</title>"
+        expect(getTitleFromHtml(html)).toBe("Tom & Jerry – \"Cartoons\" 😀")
+    })
+
+    it("should handle multi-line titles", () => {
+        const html = "<title>\n    A long\n    title\n</title>"
+        expect(getTitleFromHtml(html)).toBe("A long title")
+    })
+
+    it("should prefer og:title and twitter:title over the title tag", () => {
+        expect(getTitleFromHtml([
+            "<title>Site name</title>",
+            "<meta name=\"twitter:title\" content=\"Twitter title\">",
+            "<meta content=\"Open Graph &amp; title\" property=\"og:title\" />",
+        ].join("\n"))).toBe("Open Graph & title")
+
+        expect(getTitleFromHtml([
+            "<title>Site name</title>",
+            "<meta name='twitter:title' content='Twitter title'>",
+        ].join("\n"))).toBe("Twitter title")
+    })
+
+    it("should use og:title when there is no title tag", () => {
+        const html = "<meta property=\"og:title\" content=\"Only Open Graph\">"
+        expect(getTitleFromHtml(html)).toBe("Only Open Graph")
+    })
+
+    it("should skip generic titles", () => {
+        expect(getTitleFromHtml("<title>Login</title>")).toBe("")
+        expect(getTitleFromHtml([
+            "<meta property=\"og:title\" content=\"GitHub\">",
+            "<title>owner/repo: A project</title>",
+        ].join("\n"))).toBe("owner/repo: A project")
+    })
+
+    it("should apply the cleanup rules of the URL host", () => {
+        const cleanupRules = [
+            { host: "github.com", pattern: "\\s+·\\s+GitHub$" },
+            { host: "*.medium.com", pattern: "\\s+\\|\\s+Medium$" },
+        ]
+        const html = "<title>Fix the bug · Pull Request #1 · owner/repo · GitHub</title>"
+
+        expect(getTitleFromHtml(html, { url: "https://github.com/owner/repo/pull/1", cleanupRules }))
+            .toBe("Fix the bug · Pull Request #1 · owner/repo")
+        expect(getTitleFromHtml(html, { url: "https://example.com", cleanupRules }))
+            .toBe("Fix the bug · Pull Request #1 · owner/repo · GitHub")
+        expect(getTitleFromHtml("<title>Story | Medium</title>", { url: "https://blog.medium.com/story", cleanupRules }))
+            .toBe("Story")
+    })
 })
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest"
+import {
+    cleanUpTitle,
+    DEFAULT_TITLE_CLEANUP_RULES,
+    validateTitleCleanupRules,
+} from "../title-cleanup"
+
+describe("cleanUpTitle", () => {
+    it("strips the GitHub and Medium suffixes with the default rules", () => {
+        expect(cleanUpTitle("owner/repo: A project · GitHub", "https://github.com/owner/repo", DEFAULT_TITLE_CLEANUP_RULES))
+            .toBe("owner/repo: A project")
+        expect(cleanUpTitle("A story | by Someone | Medium", "https://medium.com/@someone/a-story", DEFAULT_TITLE_CLEANUP_RULES))
+            .toBe("A story")
+        expect(cleanUpTitle("A story | Medium", "https://team.medium.com/a-story", DEFAULT_TITLE_CLEANUP_RULES))
+            .toBe("A story")
+    })
+
+    it("uses the replacement text", () => {
+        const rules = [{ host: "example.com", pattern: " - ", replacement: ": " }]
+        expect(cleanUpTitle("Docs - Guide - Intro", "https://example.com/docs", rules))
+            .toBe("Docs: Guide: Intro")
+    })
+
+    it("skips invalid rules", () => {
+        const rules = [
+            { host: "example.com", pattern: "(" },
+            { host: "example.com", pattern: " \\| Example$" },
+        ]
+        expect(cleanUpTitle("Page | Example", "https://example.com", rules)).toBe("Page")
+    })
+})
+
+describe("validateTitleCleanupRules", () => {
+    it("accepts the default rules", () => {
+        expect(validateTitleCleanupRules(DEFAULT_TITLE_CLEANUP_RULES)).toEqual([])
+    })
+
+    it("reports invalid rules", () => {
+        expect(validateTitleCleanupRules({})).toEqual(["Title cleanup rules must be a list"])
+        expect(validateTitleCleanupRules([
+            "github.com",
+            { host: "", pattern: "(", replacement: 1 },
+        ])).toEqual([
+            "Rule 1: expected an object",
+            "Rule 2: \"host\" must be a non-empty string",
+            "Rule 2: \"pattern\" must be a valid regular expression",
+            "Rule 2: \"replacement\" must be a string",
+        ])
+    })
+})
@@ -0,0 +1,43 @@
+// Charset declared in a Content-Type header or <meta http-equiv="Content-Type" content="...">
+const CONTENT_TYPE_CHARSET_REGEX = /charset\s*=\s*["']?([\w.:-]+)/i
+// <meta charset="..."> (HTML5)
+const META_CHARSET_REGEX = /<meta[^>]+charset\s*=\s*["']?([\w.:-]+)/i
+// Browsers only look for a <meta> charset near the start of the document
+const CHARSET_SNIFF_BYTES = 1024
+
+const getHeader = (headers: Record<string, string> | undefined, name: string): string | undefined => {
+    if (!headers) return undefined
+    const key = Object.keys(headers).find(header => header.toLowerCase() === name)
+    return key ? headers[key] : undefined
+}
+
+const createDecoder = (charset: string | undefined): TextDecoder | null => {
+    if (!charset) return null
+    try {
+        return new TextDecoder(charset)
+    }
+    catch (_error) {
+        // Unknown charset label
+        return null
+    }
+}
+
+/**
+ * Decodes an HTML response body using the charset from the Content-Type header,
+ * then the one declared in the document, then UTF-8.
+ */
+export const decodeHtmlResponse = (
+    body: ArrayBuffer,
+    headers?: Record<string, string>,
+): string => {
+    const headerCharset = getHeader(headers, "content-type")?.match(CONTENT_TYPE_CHARSET_REGEX)?.[1]
+
+    // Charset labels are ASCII, so any single-byte decoding can find them
+    const head = new TextDecoder("latin1").decode(body.slice(0, CHARSET_SNIFF_BYTES))
+    const documentCharset = head.match(META_CHARSET_REGEX)?.[1]
+
+    const decoder = createDecoder(headerCharset)
+        ?? createDecoder(documentCharset)
+        ?? new TextDecoder("utf-8")
+    return decoder.decode(body)
+}
@@ -1,18 +1,125 @@
+import { cleanUpTitle, TitleCleanupRule } from "./title-cleanup"
+
 // Regular expression to capture the content inside the <title> tag
 // It handles potential attributes within the title tag (though unlikely)
-// and captures the content between <title...> and </title>
+// and captures the content between <title...> and </title>, including line breaks
 // Case-insensitive matching for <title> tag
-const TITLE_REGEX = /<title[^>]*>([^<]+)<\/title>/i
+const TITLE_REGEX = /<title[^>]*>([\s\S]*?)<\/title>/i
+// <meta> tags, whose attributes can come in any order
+const META_TAG_REGEX = /<meta\s[^>]*>/gi
+const ATTRIBUTE_REGEX = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g
+const ENTITY_REGEX = /&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi
+
+// Titles of the social cards, preferred over <title>, which often carries site names
+const META_TITLE_KEYS = ["og:title", "twitter:title"]
+
+// Titles shared by many pages of a site, which say nothing about the page
+const GENERIC_TITLES = new Set([
+    "access denied",
+    "attention required!",
+    "github",
+    "home",
+    "just a moment...",
+    "loading...",
+    "log in",
+    "login",
+    "sign in",
+    "untitled",
+])
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: "&",
+    apos: "'",
+    bull: "•",
+    copy: "©",
+    gt: ">",
+    hellip: "…",
+    laquo: "«",
+    ldquo: "“",
+    lsquo: "‘",
+    lt: "<",
+    mdash: "—",
+    middot: "·",
+    nbsp: " ",
+    ndash: "–",
+    quot: "\"",
+    raquo: "»",
+    rdquo: "”",
+    reg: "®",
+    rsquo: "’",
+    trade: "™",
+}
+
+export interface GetTitleFromHtmlOptions {
+    // URL the page was fetched from, used to pick cleanup rules
+    url?: string
+    cleanupRules?: readonly TitleCleanupRule[]
+}
+
+export const decodeHtmlEntities = (text: string): string =>
+    text.replace(ENTITY_REGEX, (entity, name: string) => {
+        if (name[0] === "#") {
+            const codePoint = name[1].toLowerCase() === "x"
+                ? parseInt(name.slice(2), 16)
+                : parseInt(name.slice(1), 10)
+            try {
+                return String.fromCodePoint(codePoint)
+            }
+            catch (_error) {
+                // Out of range code point
+                return entity
+            }
+        }
+        return NAMED_ENTITIES[name.toLowerCase()] ?? entity
+    })
+
+const getAttributes = (tag: string): Record<string, string> => {
+    const attributes: Record<string, string> = {}
+    let match: RegExpExecArray | null
+    const pattern = new RegExp(ATTRIBUTE_REGEX.source, "g")
+    while ((match = pattern.exec(tag)) !== null) {
+        attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? ""
+    }
+    return attributes
+}
+
+const getMetaTitles = (html: string): Map<string, string> => {
+    const titles = new Map<string, string>()
+    for (const tag of html.match(META_TAG_REGEX) ?? []) {
+        const attributes = getAttributes(tag)
+        const key = (attributes.property ?? attributes.name ?? "").toLowerCase()
+        if (META_TITLE_KEYS.includes(key) && !titles.has(key) && attributes.content) {
+            titles.set(key, attributes.content)
+        }
+    }
+    return titles
+}
+
+const normalizeTitle = (title: string): string =>
+    decodeHtmlEntities(title).replace(/\s+/g, " ").trim()
+
+export const getTitleFromHtml = (
+    html: string,
+    { url, cleanupRules = [] }: GetTitleFromHtmlOptions = {},
+): string => {
+    const metaTitles = getMetaTitles(html)
+    const candidates = [
+        ...META_TITLE_KEYS.map(key => metaTitles.get(key)),
+        html.match(TITLE_REGEX)?.[1],
+    ]
 
-export const getTitleFromHtml = (html: string): string => {
-    const match = html.match(TITLE_REGEX)
+    for (const candidate of candidates) {
+        if (!candidate) continue
 
-    if (match && match[1]) {
-        // match[1] contains the captured group (the content of the title tag)
-        // Trim whitespace from the extracted title
-        return match[1].trim()
+        let title = normalizeTitle(candidate)
+        if (url) {
+            title = cleanUpTitle(title, url, cleanupRules)
+        }
+        if (title && !GENERIC_TITLES.has(title.toLowerCase())) {
+            return title
+        }
     }
 
-    // Return empty string if no title tag is found or it's empty
+    // Return empty string if no usable title is found
     return ""
 }
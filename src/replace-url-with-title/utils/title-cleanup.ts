@@ -0,0 +1,104 @@
+import { matchesHost, normalizeHost } from "../../replace-urls/user-rules"
+
+/**
+ * A per-domain cleanup of fetched page titles: every match of the regular
+ * expression `pattern` is replaced with `replacement` (empty by default).
+ */
+export type TitleCleanupRule = {
+    host: string
+    pattern: string
+    replacement?: string
+}
+
+type CompiledTitleCleanupRule = {
+    host: string
+    pattern: RegExp
+    replacement: string
+}
+
+export const DEFAULT_TITLE_CLEANUP_RULES: TitleCleanupRule[] = [
+    { host: "github.com", pattern: "\\s+·\\s+GitHub$" },
+    { host: "medium.com", pattern: "\\s+\\|\\s+(?:by [^|]+\\|\\s+)?Medium$" },
+    { host: "*.medium.com", pattern: "\\s+\\|\\s+(?:by [^|]+\\|\\s+)?Medium$" },
+]
+
+const compiledRulesCache = new WeakMap<readonly TitleCleanupRule[], CompiledTitleCleanupRule[]>()
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value)
+
+const compilePattern = (pattern: string): RegExp | null => {
+    try {
+        return new RegExp(pattern, "g")
+    }
+    catch (_error) {
+        return null
+    }
+}
+
+/**
+ * Validates the raw value of the "urlTitleCleanupRules" setting.
+ * Returns an empty list when every rule is usable.
+ */
+export const validateTitleCleanupRules = (value: unknown): string[] => {
+    if (!Array.isArray(value)) {
+        return ["Title cleanup rules must be a list"]
+    }
+
+    const errors: string[] = []
+    value.forEach((rule: unknown, index) => {
+        const source = `Rule ${index + 1}`
+        if (!isPlainObject(rule)) {
+            errors.push(`${source}: expected an object`)
+            return
+        }
+        if (typeof rule.host !== "string" || normalizeHost(rule.host) === "") {
+            errors.push(`${source}: "host" must be a non-empty string`)
+        }
+        if (typeof rule.pattern !== "string" || rule.pattern === "" || compilePattern(rule.pattern) === null) {
+            errors.push(`${source}: "pattern" must be a valid regular expression`)
+        }
+        if (rule.replacement !== undefined && typeof rule.replacement !== "string") {
+            errors.push(`${source}: "replacement" must be a string`)
+        }
+    })
+    return errors
+}
+
+const compileRules = (rules: readonly TitleCleanupRule[]): CompiledTitleCleanupRule[] => {
+    const cached = compiledRulesCache.get(rules)
+    if (cached) return cached
+
+    // Rules that fail validation are skipped rather than breaking title fetching
+    const compiled = rules.flatMap((rule): CompiledTitleCleanupRule[] => {
+        if (validateTitleCleanupRules([rule]).length > 0) return []
+        const pattern = compilePattern(rule.pattern)
+        return pattern
+            ? [{ host: normalizeHost(rule.host), pattern, replacement: rule.replacement ?? "" }]
+            : []
+    })
+    compiledRulesCache.set(rules, compiled)
+    return compiled
+}
+
+/**
+ * Applies every rule whose host matches the URL the title was fetched from.
+ */
+export const cleanUpTitle = (
+    title: string,
+    url: string,
+    rules: readonly TitleCleanupRule[],
+): string => {
+    let hostname: string
+    try {
+        hostname = new URL(url).hostname.toLowerCase()
+    }
+    catch {
+        return title
+    }
+
+    return compileRules(rules)
+        .filter(rule => matchesHost(hostname, rule.host))
+        .reduce((cleaned, rule) => cleaned.replace(rule.pattern, rule.replacement), title)
+        .trim()
+}
@@ -55,6 +55,111 @@ describe("formatGitHubURL", () => {
         })
     })
 
+    describe("Commit, compare, file and other URL formatting", () => {
+        it("should format commit URLs with a short SHA", () => {
+            const input
+                = "https://github.com/kdnk/obsidian-automatic-linker/commit/0123456789abcdef0123456789abcdef01234567#diff-1"
+            const expected
+                = "[[github/kdnk/obsidian-automatic-linker/commit/0123456]] [🔗](https://github.com/kdnk/obsidian-automatic-linker/commit/0123456789abcdef0123456789abcdef01234567)"
+            expect(formatGitHubURL(input, baseSettings)).toBe(expected)
+        })
+
+        it("should format compare URLs", () => {
+            const input
+                = "https://github.com/kdnk/obsidian-automatic-linker/compare/v1.0.0...v1.1.0?expand=1"
+            const expected
+                = "[[github/kdnk/obsidian-automatic-linker/compare/v1.0.0...v1.1.0]] [🔗](https://github.com/kdnk/obsidian-automatic-linker/compare/v1.0.0...v1.1.0)"
+            expect(formatGitHubURL(input, baseSettings)).toBe(expected)
+        })
+
+        it("should format file permalinks and keep the line range in the URL", () => {
+            const input
+                = "https://github.com/kdnk/obsidian-automatic-linker/blob/main/src/main.ts#L10-L20"
+            const expected
+                = "[[github/kdnk/obsidian-automatic-linker/blob/main/src/main.ts L10-L20]] [🔗](https://github.com/kdnk/obsidian-automatic-linker/blob/main/src/main.ts#L10-L20)"
+            expect(formatGitHubURL(input, baseSettings)).toBe(expected)
+        })
+
+        it("should link different line ranges of a file to different notes", () => {
+            const first = formatGitHubURL(
+                "https://github.com/kdnk/obsidian-automatic-linker/blob/main/src/main.ts#L10-L20",
+                baseSettings,
+            )
+            const second = formatGitHubURL(
+                "https://github.com/kdnk/obsidian-automatic-linker/blob/main/src/main.ts#L30C2-L31C8",
+                baseSettings,
+            )
+            expect(second).toBe(
+                "[[github/kdnk/obsidian-automatic-linker/blob/main/src/main.ts L30C2-L31C8]] [🔗](https://github.com/kdnk/obsidian-automatic-linker/blob/main/src/main.ts#L30C2-L31C8)",
+            )
+            expect(first.split("]]")[0]).not.toBe(second.split("]]")[0])
+        })
+
+        it("should not end file link targets with the file extension", () => {
+            const result = formatGitHubURL(
+                "https://github.com/kdnk/obsidian-automatic-linker/blob/main/src/main.ts",
+                baseSettings,
+            )
+            expect(result).toBe(
+                "[[github/kdnk/obsidian-automatic-linker/blob/main/src/main.ts (file)]] [🔗](https://github.com/kdnk/obsidian-automatic-linker/blob/main/src/main.ts)",
+            )
+        })
+
+        it("should drop anchors of file URLs that are not line ranges", () => {
+            const input
+                = "https://github.com/kdnk/obsidian-automatic-linker/blob/main/README.md#installation"
+            const expected
+                = "[[github/kdnk/obsidian-automatic-linker/blob/main/README.md (file)]] [🔗](https://github.com/kdnk/obsidian-automatic-linker/blob/main/README.md)"
+            expect(formatGitHubURL(input, baseSettings)).toBe(expected)
+        })
+
+        it("should format discussion URLs", () => {
+            const input
+                = "https://github.com/kdnk/obsidian-automatic-linker/discussions/42#discussioncomment-1"
+            const expected
+                = "[[github/kdnk/obsidian-automatic-linker/discussions/42]] [🔗](https://github.com/kdnk/obsidian-automatic-linker/discussions/42)"
+            expect(formatGitHubURL(input, baseSettings)).toBe(expected)
+        })
+
+        it("should format release tag URLs", () => {
+            const input
+                = "https://github.com/kdnk/obsidian-automatic-linker/releases/tag/1.2.3"
+            const expected
+                = "[[github/kdnk/obsidian-automatic-linker/releases/1.2.3]] [🔗](https://github.com/kdnk/obsidian-automatic-linker/releases/tag/1.2.3)"
+            expect(formatGitHubURL(input, baseSettings)).toBe(expected)
+        })
+
+        it("should format Actions run URLs without job sub-pages", () => {
+            const input
+                = "https://github.com/kdnk/obsidian-automatic-linker/actions/runs/987654/job/123"
+            const expected
+                = "[[github/kdnk/obsidian-automatic-linker/actions/runs/987654]] [🔗](https://github.com/kdnk/obsidian-automatic-linker/actions/runs/987654)"
+            expect(formatGitHubURL(input, baseSettings)).toBe(expected)
+        })
+
+        it("should format pull request sub-pages", () => {
+            const input
+                = "https://github.com/kdnk/obsidian-automatic-linker/pull/123/files?w=1"
+            const expected
+                = "[[github/kdnk/obsidian-automatic-linker/pull/123/files]] [🔗](https://github.com/kdnk/obsidian-automatic-linker/pull/123/files)"
+            expect(formatGitHubURL(input, baseSettings)).toBe(expected)
+
+            const commitsInput
+                = "https://github.com/kdnk/obsidian-automatic-linker/pull/123/commits"
+            const commitsExpected
+                = "[[github/kdnk/obsidian-automatic-linker/pull/123/commits]] [🔗](https://github.com/kdnk/obsidian-automatic-linker/pull/123/commits)"
+            expect(formatGitHubURL(commitsInput, baseSettings)).toBe(commitsExpected)
+        })
+
+        it("should fall back to the repository for unrecognized pages", () => {
+            const input
+                = "https://github.com/kdnk/obsidian-automatic-linker/commit/not-a-sha"
+            const expected
+                = "[[github/kdnk/obsidian-automatic-linker]] [🔗](https://github.com/kdnk/obsidian-automatic-linker)"
+            expect(formatGitHubURL(input, baseSettings)).toBe(expected)
+        })
+    })
+
     describe("GitHub Enterprise URL formatting", () => {
         it("should format enterprise repository URLs", () => {
             const input = "https://github.enterprise.com/kdnk/project/"
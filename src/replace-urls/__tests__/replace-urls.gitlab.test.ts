@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest"
+import {
+    AutomaticLinkerSettings,
+    DEFAULT_SETTINGS,
+} from "../../settings/settings-info"
+import { formatGitLabURL } from "../gitlab"
+
+describe("formatGitLabURL", () => {
+    const baseSettings: AutomaticLinkerSettings = {
+        ...DEFAULT_SETTINGS,
+        formatGitLabURLs: true,
+        gitlabURLs: ["gitlab.company.com", "https://git.example.org/"],
+    }
+
+    describe("Project URL formatting", () => {
+        it("should format project URLs with nested groups", () => {
+            const input = "https://gitlab.com/group/sub/project/"
+            const expected
+                = "[[gitlab/group/sub/project]] [🔗](https://gitlab.com/group/sub/project)"
+            expect(formatGitLabURL(input, baseSettings)).toBe(expected)
+        })
+
+        it("should fall back to the project for other project pages", () => {
+            const input = "https://gitlab.com/group/project/-/tree/main/src"
+            const expected
+                = "[[gitlab/group/project]] [🔗](https://gitlab.com/group/project)"
+            expect(formatGitLabURL(input, baseSettings)).toBe(expected)
+        })
+
+        it("should not modify non-GitLab URLs", () => {
+            const input = "https://example.com/group/project"
+            expect(formatGitLabURL(input, baseSettings)).toBe(input)
+        })
+
+        it("should not modify URLs without a project path", () => {
+            const input = "https://gitlab.com/explore"
+            expect(formatGitLabURL(input, baseSettings)).toBe(input)
+        })
+
+        it("should handle invalid URLs", () => {
+            const input = "not-a-url"
+            expect(formatGitLabURL(input, baseSettings)).toBe(input)
+        })
+    })
+
+    describe("Merge request, issue and commit URL formatting", () => {
+        it("should format merge request URLs", () => {
+            const input
+                = "https://gitlab.com/group/sub/project/-/merge_requests/42/diffs?view=parallel#note_1"
+            const expected
+                = "[[gitlab/group/sub/project/mr/42]] [🔗](https://gitlab.com/group/sub/project/-/merge_requests/42)"
+            expect(formatGitLabURL(input, baseSettings)).toBe(expected)
+        })
+
+        it("should format issue URLs", () => {
+            const input = "https://gitlab.com/group/project/-/issues/7#note_123"
+            const expected
+                = "[[gitlab/group/project/issues/7]] [🔗](https://gitlab.com/group/project/-/issues/7)"
+            expect(formatGitLabURL(input, baseSettings)).toBe(expected)
+        })
+
+        it("should format commit URLs", () => {
+            const input = "https://gitlab.com/group/project/-/commit/1a2b3c4d5e6f?view=inline"
+            const expected
+                = "[[gitlab/group/project/commit/1a2b3c4d5e6f]] [🔗](https://gitlab.com/group/project/-/commit/1a2b3c4d5e6f)"
+            expect(formatGitLabURL(input, baseSettings)).toBe(expected)
+        })
+
+        it("should fall back to the project for malformed ids", () => {
+            const input = "https://gitlab.com/group/project/-/merge_requests/new"
+            const expected
+                = "[[gitlab/group/project]] [🔗](https://gitlab.com/group/project)"
+            expect(formatGitLabURL(input, baseSettings)).toBe(expected)
+        })
+    })
+
+    describe("Self-hosted GitLab URL formatting", () => {
+        it("should format configured self-hosted URLs", () => {
+            const input = "https://gitlab.company.com/team/app/-/merge_requests/5"
+            const expected
+                = "[[gitlab/team/app/mr/5]] [🔗](https://gitlab.company.com/team/app/-/merge_requests/5)"
+            expect(formatGitLabURL(input, baseSettings)).toBe(expected)
+        })
+
+        it("should accept configured URLs with protocol and trailing slash", () => {
+            const input = "https://git.example.org/team/app/-/issues/9"
+            const expected
+                = "[[gitlab/team/app/issues/9]] [🔗](https://git.example.org/team/app/-/issues/9)"
+            expect(formatGitLabURL(input, baseSettings)).toBe(expected)
+        })
+
+        it("should not format URLs from non-configured hosts", () => {
+            const input = "https://gitlab.other.com/team/app/-/issues/9"
+            expect(formatGitLabURL(input, baseSettings)).toBe(input)
+        })
+    })
+})
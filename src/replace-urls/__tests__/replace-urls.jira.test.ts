@@ -8,7 +8,13 @@ import { formatJiraURL } from "../jira"
 describe("formatJiraURL", () => {
     const baseSettings: AutomaticLinkerSettings = {
         ...DEFAULT_SETTINGS,
-        jiraURLs: ["sub-domain.work.com", "jira.company.com"],
+        jiraURLs: [
+            "sub-domain.work.com",
+            "jira.company.com",
+            "jira.company.co.uk",
+            "jira.eng.company.com",
+            "jira.acme.atlassian.net",
+        ],
     }
 
     describe("Basic Jira URL formatting", () => {
@@ -50,6 +56,38 @@ describe("formatJiraURL", () => {
             expect(formatJiraURL(input, baseSettings)).toBe(expected)
         })
 
+        it("should use the second label of hosts with a second-level public suffix", () => {
+            const input = "https://jira.company.co.uk/browse/ABC-456"
+            const expected
+                = "[[company/jira/ABC/456]] [🔗](https://jira.company.co.uk/browse/ABC-456)"
+            expect(formatJiraURL(input, baseSettings)).toBe(expected)
+        })
+
+        it("should keep using the second label of hosts with more labels", () => {
+            expect(formatJiraURL("https://jira.eng.company.com/browse/ABC-456", baseSettings)).toBe(
+                "[[eng/jira/ABC/456]] [🔗](https://jira.eng.company.com/browse/ABC-456)",
+            )
+            expect(formatJiraURL("https://jira.acme.atlassian.net/browse/ABC-456", baseSettings)).toBe(
+                "[[acme/jira/ABC/456]] [🔗](https://jira.acme.atlassian.net/browse/ABC-456)",
+            )
+        })
+
+        it("should derive the organization name for templates that use {organization}", () => {
+            const settings = {
+                ...baseSettings,
+                trackerLinkTemplates: { jira: { prefix: "{organization}" } },
+            }
+            expect(formatJiraURL("https://jira.eng.company.com/browse/ABC-456", settings)).toBe(
+                "[[company/jira/ABC/456]] [🔗](https://jira.eng.company.com/browse/ABC-456)",
+            )
+            expect(formatJiraURL("https://jira.company.co.uk/browse/ABC-456", settings)).toBe(
+                "[[company/jira/ABC/456]] [🔗](https://jira.company.co.uk/browse/ABC-456)",
+            )
+            expect(formatJiraURL("https://jira.acme.atlassian.net/browse/ABC-456", settings)).toBe(
+                "[[acme/jira/ABC/456]] [🔗](https://jira.acme.atlassian.net/browse/ABC-456)",
+            )
+        })
+
         it("should not format URLs from non-configured domains", () => {
             const input = "https://jira.other-company.com/browse/DEF-789"
             expect(formatJiraURL(input, baseSettings)).toBe(input)
@@ -57,27 +95,41 @@ describe("formatJiraURL", () => {
     })
 
     describe("URL with query parameters", () => {
-        it("should not format URLs with query parameters (focusedCommentId)", () => {
+        it("should drop the comment from URLs with focusedCommentId by default", () => {
             const input
                 = "https://sub-domain.work.com/browse/XYZ-123?focusedCommentId=12345"
-            expect(formatJiraURL(input, baseSettings)).toBe(input)
+            const expected
+                = "[[work/jira/XYZ/123]] [🔗](https://sub-domain.work.com/browse/XYZ-123)"
+            expect(formatJiraURL(input, baseSettings)).toBe(expected)
         })
 
-        it("should not format URLs with query parameters (selectedIssue)", () => {
-            const input
-                = "https://sub-domain.work.com/browse/XYZ-123?selectedIssue=XYZ-123"
-            expect(formatJiraURL(input, baseSettings)).toBe(input)
+        it("should keep the comment when preserveJiraCommentAnchor is enabled", () => {
+            const settings = { ...baseSettings, preserveJiraCommentAnchor: true }
+            const expected
+                = "[[work/jira/XYZ/123]] [🔗](https://sub-domain.work.com/browse/XYZ-123?focusedCommentId=12345)"
+            expect(formatJiraURL(
+                "https://sub-domain.work.com/browse/XYZ-123?focusedCommentId=12345&page=com.atlassian.jira.plugin.system.issuetabpanels%3Acomment-tabpanel",
+                settings,
+            )).toBe(expected)
+            expect(formatJiraURL(
+                "https://sub-domain.work.com/browse/XYZ-123#comment-12345",
+                settings,
+            )).toBe(expected)
         })
 
-        it("should not format URLs with multiple query parameters", () => {
+        it("should format browse URLs with multiple query parameters", () => {
             const input
                 = "https://sub-domain.work.com/browse/XYZ-123?focusedCommentId=12345&selectedIssue=XYZ-123"
-            expect(formatJiraURL(input, baseSettings)).toBe(input)
+            const expected
+                = "[[work/jira/XYZ/123]] [🔗](https://sub-domain.work.com/browse/XYZ-123)"
+            expect(formatJiraURL(input, baseSettings)).toBe(expected)
         })
 
-        it("should not format URLs with empty query parameters", () => {
+        it("should format URLs with empty query parameters", () => {
             const input = "https://sub-domain.work.com/browse/XYZ-123?"
-            expect(formatJiraURL(input, baseSettings)).toBe(input)
+            const expected
+                = "[[work/jira/XYZ/123]] [🔗](https://sub-domain.work.com/browse/XYZ-123)"
+            expect(formatJiraURL(input, baseSettings)).toBe(expected)
         })
 
         it("should format URLs without query parameters", () => {
@@ -87,4 +139,44 @@ describe("formatJiraURL", () => {
             expect(formatJiraURL(input, baseSettings)).toBe(expected)
         })
     })
+
+    describe("Jira Cloud and Service Desk URLs", () => {
+        it("should format board URLs with a selected issue", () => {
+            const input
+                = "https://sub-domain.work.com/jira/software/projects/XYZ/boards/1?selectedIssue=XYZ-123"
+            const expected
+                = "[[work/jira/XYZ/123]] [🔗](https://sub-domain.work.com/browse/XYZ-123)"
+            expect(formatJiraURL(input, baseSettings)).toBe(expected)
+        })
+
+        it("should not format board URLs without a selected issue", () => {
+            const input
+                = "https://sub-domain.work.com/jira/software/projects/XYZ/boards/1"
+            expect(formatJiraURL(input, baseSettings)).toBe(input)
+        })
+
+        it("should format Service Desk portal URLs", () => {
+            const input
+                = "https://sub-domain.work.com/servicedesk/customer/portal/2/HELP-42"
+            const expected
+                = "[[work/jira/HELP/42]] [🔗](https://sub-domain.work.com/servicedesk/customer/portal/2/HELP-42)"
+            expect(formatJiraURL(input, baseSettings)).toBe(expected)
+        })
+
+        it("should accept digits and underscores in the project key", () => {
+            const input = "https://sub-domain.work.com/browse/AB2_C-7"
+            const expected
+                = "[[work/jira/AB2_C/7]] [🔗](https://sub-domain.work.com/browse/AB2_C-7)"
+            expect(formatJiraURL(input, baseSettings)).toBe(expected)
+        })
+
+        it("should format lowercase and numeric project keys in uppercase", () => {
+            expect(formatJiraURL("https://sub-domain.work.com/browse/xyz-1", baseSettings))
+                .toBe("[[work/jira/XYZ/1]] [🔗](https://sub-domain.work.com/browse/XYZ-1)")
+            expect(formatJiraURL("https://sub-domain.work.com/browse/1xy-1", baseSettings))
+                .toBe("[[work/jira/1XY/1]] [🔗](https://sub-domain.work.com/browse/1XY-1)")
+            expect(formatJiraURL("https://sub-domain.work.com/jira/software/projects/XYZ/boards/1?selectedIssue=xyz-7", baseSettings))
+                .toBe("[[work/jira/XYZ/7]] [🔗](https://sub-domain.work.com/browse/XYZ-7)")
+        })
+    })
 })
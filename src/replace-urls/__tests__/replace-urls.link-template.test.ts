@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest"
+import {
+    AutomaticLinkerSettings,
+    DEFAULT_SETTINGS,
+} from "../../settings/settings-info"
+import { formatGitHubURL } from "../github"
+import { formatGitLabURL } from "../gitlab"
+import { formatJiraURL } from "../jira"
+import { formatLinearURL } from "../linear"
+import {
+    DEFAULT_TRACKER_NOTE_TEMPLATE,
+    renderTrackerNote,
+    TrackerLink,
+    validateTrackerLinkTemplates,
+} from "../link-template"
+
+describe("tracker link templates", () => {
+    const baseSettings: AutomaticLinkerSettings = {
+        ...DEFAULT_SETTINGS,
+        formatLinearURLs: true,
+        jiraURLs: ["jira.company.com"],
+    }
+
+    it("should produce a custom Jira link without the URL suffix", () => {
+        const settings: AutomaticLinkerSettings = {
+            ...baseSettings,
+            trackerLinkTemplates: {
+                jira: { prefix: "tickets", segments: ["{key}"], appendUrl: false },
+            },
+        }
+        expect(formatJiraURL("https://jira.company.com/browse/JIRA-123", settings))
+            .toBe("[[tickets/JIRA-123]]")
+    })
+
+    it("should add an alias and keep unset parts of the default template", () => {
+        const settings: AutomaticLinkerSettings = {
+            ...baseSettings,
+            trackerLinkTemplates: {
+                github: { alias: "{repository}#{id}" },
+            },
+        }
+        expect(formatGitHubURL("https://github.com/kdnk/obsidian-automatic-linker/pull/123", settings))
+            .toBe("[[github/kdnk/obsidian-automatic-linker/pull/123|obsidian-automatic-linker#123]] [🔗](https://github.com/kdnk/obsidian-automatic-linker/pull/123)")
+    })
+
+    it("should drop segments whose placeholders are empty", () => {
+        const settings: AutomaticLinkerSettings = {
+            ...baseSettings,
+            trackerLinkTemplates: {
+                gitlab: { prefix: "{host}", segments: ["{project}", "{type}", "{id}"] },
+            },
+        }
+        expect(formatGitLabURL("https://gitlab.com/group/project", settings))
+            .toBe("[[gitlab.com/group/project]] [🔗](https://gitlab.com/group/project)")
+    })
+
+    it("should use {url} in the alias", () => {
+        const settings: AutomaticLinkerSettings = {
+            ...baseSettings,
+            trackerLinkTemplates: {
+                linear: { prefix: "issues", segments: ["{issueId}"], alias: "{url}", appendUrl: false },
+            },
+        }
+        expect(formatLinearURL("https://linear.app/team/issue/ENG-1/title", settings))
+            .toBe("[[issues/ENG-1|https://linear.app/team/issue/ENG-1]]")
+    })
+
+    it("should validate templates", () => {
+        expect(validateTrackerLinkTemplates({ jira: { prefix: "tickets", segments: ["{key}"] } })).toEqual([])
+        expect(validateTrackerLinkTemplates([])).toEqual([
+            "Tracker link templates must be an object keyed by service",
+        ])
+        expect(validateTrackerLinkTemplates({
+            bitbucket: {},
+            jira: { prefix: "{path}", segments: "key", appendUrl: "no", extra: 1 },
+            linear: { alias: "{issueId" },
+        })).toEqual([
+            "Unknown service \"bitbucket\"",
+            "jira: unknown key \"extra\"",
+            "jira: \"prefix\" uses {path}, which is not available for jira",
+            "jira: \"segments\" must be a list of strings",
+            "jira: \"appendUrl\" must be true or false",
+            "linear: \"alias\" has an unbalanced \"{\" or \"}\"",
+        ])
+    })
+
+    it("should render tracker notes with the shared placeholders of every service", () => {
+        const links: TrackerLink[] = []
+        formatGitHubURL("https://github.com/kdnk/obsidian-automatic-linker/pull/12", baseSettings, link => links.push(link))
+        formatJiraURL("https://jira.company.com/browse/ABC-7", baseSettings, link => links.push(link))
+        formatGitLabURL("https://gitlab.com/group/sub/project/-/issues/3", baseSettings, link => links.push(link))
+        formatLinearURL("https://linear.app/team/issue/ENG-1", baseSettings, link => links.push(link))
+
+        expect(links.map(link => link.target)).toEqual([
+            "github/kdnk/obsidian-automatic-linker/pull/12",
+            "company/jira/ABC/7",
+            "gitlab/group/sub/project/issues/3",
+            "linear/team/ENG-1",
+        ])
+        expect(links.map(link => renderTrackerNote("{service} {owner} {repo} {type} {id}", link))).toEqual([
+            "github kdnk obsidian-automatic-linker pull 12",
+            "jira company ABC issue ABC-7",
+            "gitlab group/sub project issues 3",
+            "linear team ENG issue ENG-1",
+        ])
+        expect(renderTrackerNote(DEFAULT_TRACKER_NOTE_TEMPLATE, links[0])).toBe([
+            "---",
+            "url: https://github.com/kdnk/obsidian-automatic-linker/pull/12",
+            "owner: kdnk",
+            "repo: obsidian-automatic-linker",
+            "type: pull",
+            "id: 12",
+            "---",
+            "",
+        ].join("\n"))
+    })
+
+    it("should quote frontmatter values that would break YAML", () => {
+        const link: TrackerLink = {
+            service: "jira",
+            target: "company/jira/ABC/7",
+            url: "https://jira.company.com/browse/ABC-7",
+            values: { owner: "Fix: login", repo: "#42 crash", type: "[draft]", id: "ABC-7" },
+        }
+        expect(renderTrackerNote(`${DEFAULT_TRACKER_NOTE_TEMPLATE}# {owner}\n`, link)).toBe([
+            "---",
+            "url: https://jira.company.com/browse/ABC-7",
+            "owner: \"Fix: login\"",
+            "repo: \"#42 crash\"",
+            "type: \"[draft]\"",
+            "id: ABC-7",
+            "---",
+            "# Fix: login",
+            "",
+        ].join("\n"))
+    })
+})
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest"
+import {
+    AutomaticLinkerSettings,
+    DEFAULT_SETTINGS,
+} from "../../settings/settings-info"
+import { formatURLWithAdapters } from "../url-formatting"
+import {
+    formatURLWithUserRules,
+    validateUrlFormatterRules,
+} from "../user-rules"
+
+describe("formatURLWithUserRules", () => {
+    const settings: AutomaticLinkerSettings = {
+        ...DEFAULT_SETTINGS,
+        urlFormatterRules: [
+            {
+                host: "gitlab.company.com",
+                path: "/(?<group>.+)/(?<project>[^/]+)/-/merge_requests/(?<id>\\d+)",
+                template: "[[gitlab/{group}/{project}/mr/{id}]] [🔗]({url})",
+            },
+            {
+                host: "*.atlassian.net",
+                path: "/wiki/spaces/(?<space>[^/]+)/pages/(?<id>\\d+)(?:/.*)?",
+                template: "[[confluence/{space}/{id}]] [🔗]({origin}/wiki/spaces/{space}/pages/{id})",
+            },
+            {
+                host: "github.com",
+                path: "/(?<owner>[^/]+)/(?<repo>[^/]+)/pull/(?<id>\\d+)",
+                template: "[[pr/{repo}#{id}]]",
+            },
+        ],
+    }
+
+    it("formats URLs with named groups from the path", () => {
+        const url = "https://gitlab.company.com/group/sub/project/-/merge_requests/42"
+        expect(formatURLWithUserRules(url, settings)).toBe(
+            `[[gitlab/group/sub/project/mr/42]] [🔗](${url})`,
+        )
+    })
+
+    it("supports wildcard hosts and the origin placeholder", () => {
+        expect(formatURLWithUserRules(
+            "https://acme.atlassian.net/wiki/spaces/ENG/pages/123/Release+notes",
+            settings,
+        )).toBe(
+            "[[confluence/ENG/123]] [🔗](https://acme.atlassian.net/wiki/spaces/ENG/pages/123)",
+        )
+    })
+
+    it("leaves URLs unchanged when no rule matches", () => {
+        const url = "https://gitlab.company.com/group/project/-/issues/7"
+        expect(formatURLWithUserRules(url, settings)).toBe(url)
+        expect(formatURLWithUserRules("not-a-url", settings)).toBe("not-a-url")
+    })
+
+    it("runs ahead of the built-in formatters", () => {
+        expect(formatURLWithAdapters(
+            "https://github.com/owner/repo/pull/12",
+            settings,
+        )).toBe("[[pr/repo#12]]")
+    })
+
+    it("skips invalid stored rules", () => {
+        const url = "https://example.com/1"
+        expect(formatURLWithUserRules(url, {
+            ...DEFAULT_SETTINGS,
+            urlFormatterRules: [{ host: "example.com", path: "/(", template: "x" }],
+        })).toBe(url)
+    })
+})
+
+describe("validateUrlFormatterRules", () => {
+    it("accepts valid rules", () => {
+        expect(validateUrlFormatterRules([
+            { host: "example.com", path: "/(?<id>\\d+)", template: "[[example/{id}]] [🔗]({url})" },
+        ])).toEqual([])
+    })
+
+    it("reports invalid patterns and templates", () => {
+        expect(validateUrlFormatterRules({})).toEqual(["URL formatter rules must be a list"])
+        expect(validateUrlFormatterRules([
+            { host: "", path: "/(", template: "{id" },
+            { host: "example.com", path: "/(?<id>\\d+)", template: "[[{id}/{name}]]" },
+        ])).toEqual([
+            "Rule 1: \"host\" must be a non-empty string",
+            "Rule 1: \"path\" must be a valid regular expression",
+            "Rule 1: \"template\" has an unbalanced \"{\" or \"}\"",
+            "Rule 2: \"template\" uses {name}, which is not a named group in \"path\"",
+        ])
+    })
+})
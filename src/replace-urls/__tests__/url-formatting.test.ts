@@ -1,4 +1,4 @@
-import { describe, expect, it } from "vitest"
+import { describe, expect, it, vi } from "vitest"
 import { DEFAULT_SETTINGS } from "../../settings/settings-info"
 import {
     formatURLsInText,
@@ -84,7 +84,7 @@ describe("formatURLsInText", () => {
         expect(result).toBe("https://linear.app/team/issue/BUG-789/title")
     })
 
-    it("leaves Jira URLs with query strings unchanged", () => {
+    it("formats Jira URLs with query strings", () => {
         const result = formatURLsInText({
             text: "https://jira.company.com/browse/ABC-456?focusedCommentId=12345",
             settings: {
@@ -95,7 +95,7 @@ describe("formatURLsInText", () => {
         })
 
         expect(result).toBe(
-            "https://jira.company.com/browse/ABC-456?focusedCommentId=12345",
+            "[[company/jira/ABC/456]] [🔗](https://jira.company.com/browse/ABC-456)",
         )
     })
 
@@ -142,4 +142,23 @@ describe("formatURLsInText", () => {
             "[[github/owner/repo/issues/123]] [🔗](https://github.com/owner/repo/issues/123)",
         ].join("\n"))
     })
+
+    it("reports the tracker links it produces", () => {
+        const onTrackerLink = vi.fn()
+        formatURLsInText({
+            text: "See https://github.com/owner/repo/pull/12 and https://example.com",
+            settings: {
+                ...DEFAULT_SETTINGS,
+                formatGitHubURLs: true,
+            },
+            onTrackerLink,
+        })
+
+        expect(onTrackerLink).toHaveBeenCalledTimes(1)
+        expect(onTrackerLink).toHaveBeenCalledWith(expect.objectContaining({
+            service: "github",
+            target: "github/owner/repo/pull/12",
+            url: "https://github.com/owner/repo/pull/12",
+        }))
+    })
 })
@@ -1,22 +1,47 @@
 import { AutomaticLinkerSettings } from "../settings/settings-info"
+import { formatTrackerLink, TrackerLinkCallback } from "./link-template"
+
+type GitHubURLType
+    = | "pull"
+        | "issues"
+        | "commit"
+        | "compare"
+        | "blob"
+        | "discussions"
+        | "releases"
+        | "actions"
 
 type GitHubURLInfo = {
     owner: string
     repository: string
-    type?: "pull" | "issues"
+    type?: GitHubURLType
     id?: string
+    // Path after the repository, shared by the wikilink and the clean URL
+    linkPath?: string
+    urlPath?: string
+    // Anchor kept in the clean URL (line ranges of file permalinks)
+    hash?: string
 }
 
+const PULL_REQUEST_SUB_PAGES = new Set(["files", "commits", "checks"])
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{7,40}$/i
+const LINE_RANGE_HASH_PATTERN = /^#L\d+(?:C\d+)?(?:-L\d+(?:C\d+)?)?$/
+const NUMBER_PATTERN = /^\d+$/
+// Ends the wikilink target of a file permalink without a line range
+const WHOLE_FILE_LABEL = "(file)"
+
 /**
  * Format a GitHub URL by normalizing the format and converting to Obsidian link format:
- * [[github_id/repository/{pull or issue}/{id}]] [🔗](url)
+ * [[github_id/repository/{pull, issues, commit, ...}/{id}]] [🔗](url)
  * @param url The URL to format
  * @param settings Plugin settings
+ * @param onTrackerLink Called with the produced link
  * @returns The formatted URL in Obsidian link format
  */
 export function formatGitHubURL(
     url: string,
     settings: AutomaticLinkerSettings,
+    onTrackerLink?: TrackerLinkCallback,
 ): string {
     try {
         const githubURL = new URL(url)
@@ -32,7 +57,7 @@ export function formatGitHubURL(
         }
 
         const cleanURL = getCleanURL(githubURL, urlInfo)
-        return formatToObsidianLink(urlInfo, cleanURL)
+        return formatToObsidianLink(githubURL, urlInfo, cleanURL, settings, onTrackerLink)
     }
     catch {
         // If URL is invalid, return original string
@@ -41,7 +66,8 @@ export function formatGitHubURL(
 }
 
 /**
- * Parse GitHub URL into its components
+ * Parse GitHub URL into its components.
+ * Pages that are not recognized fall back to the repository.
  */
 function parseGitHubURL(url: URL): GitHubURLInfo | null {
     const parts = url.pathname.split("/").filter(Boolean)
@@ -49,51 +75,117 @@ function parseGitHubURL(url: URL): GitHubURLInfo | null {
         return null
     }
 
-    const [owner, repository, type, id] = parts
-    const urlInfo: GitHubURLInfo = {
+    const [owner, repository, ...rest] = parts
+    return {
         owner,
         repository,
+        ...parseRepositoryResource(rest, url.hash),
     }
+}
+
+/**
+ * Parse the part of a GitHub URL after "owner/repository"
+ */
+function parseRepositoryResource(
+    parts: string[],
+    hash: string,
+): Omit<GitHubURLInfo, "owner" | "repository"> {
+    const [type, id, ...rest] = parts
 
-    if (isPullRequestOrIssueURL(url)) {
-        urlInfo.type = type as "pull" | "issues"
-        urlInfo.id = id
+    switch (type) {
+        case "pull": {
+            if (!id || !NUMBER_PATTERN.test(id)) break
+            const subPage = PULL_REQUEST_SUB_PAGES.has(rest[0]) ? `/${rest[0]}` : ""
+            const path = `pull/${id}${subPage}`
+            return { type, id, linkPath: path, urlPath: path }
+        }
+        case "issues":
+        case "discussions": {
+            if (!id || !NUMBER_PATTERN.test(id)) break
+            return { type, id, linkPath: `${type}/${id}`, urlPath: `${type}/${id}` }
+        }
+        case "commit": {
+            if (!id || !COMMIT_SHA_PATTERN.test(id)) break
+            return {
+                type,
+                id,
+                linkPath: `commit/${id.slice(0, 7)}`,
+                urlPath: `commit/${id}`,
+            }
+        }
+        case "compare": {
+            const range = parts.slice(1).join("/")
+            if (!range.includes("..")) break
+            return { type, id: range, linkPath: `compare/${range}`, urlPath: `compare/${range}` }
+        }
+        case "blob": {
+            // The first segment is the ref; branch names containing "/" are ambiguous
+            if (!id || rest.length === 0) break
+            const path = `${id}/${rest.join("/")}`
+            const lineRange = LINE_RANGE_HASH_PATTERN.test(hash) ? hash : undefined
+            // The target must not end with the file's extension, or Obsidian would treat
+            // it as a non-markdown file; the line range tells permalinks into one file apart
+            const label = lineRange ? lineRange.slice(1) : WHOLE_FILE_LABEL
+            return {
+                type,
+                id: path,
+                linkPath: `blob/${path} ${label}`,
+                urlPath: `blob/${path}`,
+                hash: lineRange,
+            }
+        }
+        case "releases": {
+            const tag = rest.join("/")
+            if (id !== "tag" || !tag) break
+            return { type, id: tag, linkPath: `releases/${tag}`, urlPath: `releases/tag/${tag}` }
+        }
+        case "actions": {
+            const [runId] = rest
+            if (id !== "runs" || !runId || !NUMBER_PATTERN.test(runId)) break
+            return {
+                type,
+                id: runId,
+                linkPath: `actions/runs/${runId}`,
+                urlPath: `actions/runs/${runId}`,
+            }
+        }
     }
 
-    return urlInfo
+    return {}
 }
 
 /**
  * Get clean URL without query parameters and trailing slashes
  */
 function getCleanURL(url: URL, urlInfo: GitHubURLInfo): string {
-    if (urlInfo.type && urlInfo.id) {
-        const basePath = `/${urlInfo.owner}/${urlInfo.repository}/${urlInfo.type}/${urlInfo.id}`
-        return `${url.origin}${basePath}`
+    const repositoryURL = `${url.origin}/${urlInfo.owner}/${urlInfo.repository}`
+    if (urlInfo.urlPath) {
+        return `${repositoryURL}/${urlInfo.urlPath}${urlInfo.hash ?? ""}`
     }
-    return `${url.origin}/${urlInfo.owner}/${urlInfo.repository}`.replace(
-        /\/$/,
-        "",
-    )
+    return repositoryURL
 }
 
 /**
  * Format URL info into Obsidian link format
  */
 function formatToObsidianLink(
+    url: URL,
     urlInfo: GitHubURLInfo,
     cleanURL: string,
+    settings: AutomaticLinkerSettings,
+    onTrackerLink?: TrackerLinkCallback,
 ): string {
-    const url = new URL(cleanURL)
     const isEnterpriseURL = url.hostname !== "github.com"
-    const prefix = isEnterpriseURL ? "ghe" : "github"
-
-    let wikiLink = `[[${prefix}/${urlInfo.owner}/${urlInfo.repository}`
-    if (urlInfo.type && urlInfo.id) {
-        wikiLink += `/${urlInfo.type}/${urlInfo.id}`
-    }
-    wikiLink += `]] [🔗](${cleanURL})`
-    return wikiLink
+    return formatTrackerLink("github", {
+        service: isEnterpriseURL ? "ghe" : "github",
+        host: url.hostname,
+        owner: urlInfo.owner,
+        repository: urlInfo.repository,
+        repo: urlInfo.repository,
+        type: urlInfo.type,
+        id: urlInfo.id,
+        path: urlInfo.linkPath,
+    }, cleanURL, settings, onTrackerLink)
 }
 
 /**
@@ -114,11 +206,3 @@ function isGitHubURL(url: URL, enterpriseURLs: string[]): boolean {
         return url.hostname === cleanEnterpriseURL
     })
 }
-
-/**
- * Check if the URL is a pull request or issue URL
- */
-function isPullRequestOrIssueURL(url: URL): boolean {
-    const path = url.pathname.toLowerCase()
-    return path.includes("/pull/") || path.includes("/issues/")
-}
@@ -0,0 +1,133 @@
+import { AutomaticLinkerSettings } from "../settings/settings-info"
+import { formatTrackerLink, TrackerLinkCallback } from "./link-template"
+
+type GitLabURLInfo = {
+    // Full project path including nested groups, e.g. "group/sub/project"
+    project: string
+    type?: "mr" | "issues" | "commit"
+    id?: string
+}
+
+const GITLAB_URL_TYPES: Record<string, GitLabURLInfo["type"]> = {
+    merge_requests: "mr",
+    issues: "issues",
+    commit: "commit",
+}
+
+/**
+ * Format a GitLab URL by normalizing the format and converting to Obsidian link format:
+ * [[gitlab/group/sub/project/{mr, issues or commit}/{id}]] [🔗](url)
+ * @param url The URL to format
+ * @param settings Plugin settings
+ * @param onTrackerLink Called with the produced link
+ * @returns The formatted URL in Obsidian link format
+ */
+export function formatGitLabURL(
+    url: string,
+    settings: AutomaticLinkerSettings,
+    onTrackerLink?: TrackerLinkCallback,
+): string {
+    try {
+        const gitlabURL = new URL(url)
+
+        // Check if it's a GitLab URL (including self-hosted instances)
+        if (!isGitLabURL(gitlabURL, settings.gitlabURLs)) {
+            return url
+        }
+
+        const urlInfo = parseGitLabURL(gitlabURL)
+        if (!urlInfo) {
+            return url
+        }
+
+        const cleanURL = getCleanURL(gitlabURL, urlInfo)
+        return formatToObsidianLink(gitlabURL, urlInfo, cleanURL, settings, onTrackerLink)
+    }
+    catch {
+        // If URL is invalid, return original string
+        return url
+    }
+}
+
+/**
+ * Parse GitLab URL into its components.
+ * Everything before the "/-/" separator is the project path.
+ */
+function parseGitLabURL(url: URL): GitLabURLInfo | null {
+    const parts = url.pathname.split("/").filter(Boolean)
+    const separatorIndex = parts.indexOf("-")
+    const projectParts = separatorIndex === -1 ? parts : parts.slice(0, separatorIndex)
+    if (projectParts.length < 2) {
+        return null
+    }
+
+    const urlInfo: GitLabURLInfo = {
+        project: projectParts.join("/"),
+    }
+    if (separatorIndex === -1) {
+        return urlInfo
+    }
+
+    const [resource, id] = parts.slice(separatorIndex + 1)
+    const type = GITLAB_URL_TYPES[resource]
+    if (type && id && isValidId(type, id)) {
+        urlInfo.type = type
+        urlInfo.id = id
+    }
+
+    return urlInfo
+}
+
+function isValidId(type: NonNullable<GitLabURLInfo["type"]>, id: string): boolean {
+    return type === "commit" ? /^[0-9a-f]{7,40}$/i.test(id) : /^\d+$/.test(id)
+}
+
+/**
+ * Get clean URL without query parameters, anchors and sub-pages
+ */
+function getCleanURL(url: URL, urlInfo: GitLabURLInfo): string {
+    if (urlInfo.type && urlInfo.id) {
+        const resource = Object.keys(GITLAB_URL_TYPES)
+            .find(key => GITLAB_URL_TYPES[key] === urlInfo.type)
+        return `${url.origin}/${urlInfo.project}/-/${resource}/${urlInfo.id}`
+    }
+    return `${url.origin}/${urlInfo.project}`
+}
+
+/**
+ * Format URL info into Obsidian link format
+ */
+function formatToObsidianLink(
+    url: URL,
+    urlInfo: GitLabURLInfo,
+    cleanURL: string,
+    settings: AutomaticLinkerSettings,
+    onTrackerLink?: TrackerLinkCallback,
+): string {
+    const separatorIndex = urlInfo.project.lastIndexOf("/")
+    return formatTrackerLink("gitlab", {
+        host: url.hostname,
+        project: urlInfo.project,
+        owner: urlInfo.project.slice(0, separatorIndex),
+        repo: urlInfo.project.slice(separatorIndex + 1),
+        type: urlInfo.type,
+        id: urlInfo.id,
+    }, cleanURL, settings, onTrackerLink)
+}
+
+/**
+ * Check if the URL is a GitLab URL (gitlab.com or a configured self-hosted instance)
+ */
+function isGitLabURL(url: URL, gitlabURLs: string[]): boolean {
+    if (url.hostname === "gitlab.com") {
+        return true
+    }
+
+    return gitlabURLs.some((gitlabURL) => {
+        // Remove any protocol and trailing slashes from the GitLab URL
+        const cleanGitLabURL = gitlabURL
+            .replace(/^https?:\/\//, "")
+            .replace(/\/$/, "")
+        return url.hostname === cleanGitLabURL
+    })
+}
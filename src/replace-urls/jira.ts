@@ -1,20 +1,34 @@
 import { AutomaticLinkerSettings } from "../settings/settings-info"
+import { formatTrackerLink, TrackerLinkCallback } from "./link-template"
 
 type JiraURLInfo = {
     project: string
     issueId: string
+    // Service Desk portal id, for issues linked from the customer portal
+    portalId?: string
+    commentId?: string
 }
 
+// Keys are matched regardless of case, like Jira itself, and written in uppercase
+const ISSUE_KEY_PATTERN = /^([A-Z0-9][A-Z0-9_]*)-(\d+)$/i
+const COMMENT_HASH_PATTERN = /^#comment-(\d+)$/
+
+const GENERIC_SECOND_LEVEL_DOMAINS = new Set(["ac", "co", "com", "edu", "gov", "ne", "net", "or", "org"])
+// Hosting domains whose customers are the label in front of them, e.g. "acme.atlassian.net"
+const HOSTED_JIRA_DOMAINS = ["atlassian.net"]
+
 /**
  * Format a Jira URL by converting to Obsidian link format:
  * [[jira/domain/PROJECT/123]] [🔗](url)
  * @param url The URL to format
  * @param settings Plugin settings
+ * @param onTrackerLink Called with the produced link
  * @returns The formatted URL in Obsidian link format
  */
 export function formatJiraURL(
     url: string,
     settings: AutomaticLinkerSettings,
+    onTrackerLink?: TrackerLinkCallback,
 ): string {
     try {
         const jiraURL = new URL(url)
@@ -24,18 +38,13 @@ export function formatJiraURL(
             return url
         }
 
-        // Don't format if URL has query parameters (including empty query)
-        if (url.includes("?")) {
-            return url
-        }
-
         const urlInfo = parseJiraURL(jiraURL)
         if (!urlInfo) {
             return url
         }
 
-        const cleanURL = getCleanURL(jiraURL, urlInfo)
-        return formatToObsidianLink(jiraURL, urlInfo, cleanURL)
+        const cleanURL = getCleanURL(jiraURL, urlInfo, settings.preserveJiraCommentAnchor)
+        return formatToObsidianLink(jiraURL, urlInfo, cleanURL, settings, onTrackerLink)
     }
     catch {
         // If URL is invalid, return original string
@@ -44,32 +53,81 @@ export function formatJiraURL(
 }
 
 /**
- * Parse Jira URL into its components
+ * Parse Jira URL into its components. Recognized shapes:
+ * - /browse/PROJECT-123
+ * - any page with ?selectedIssue=PROJECT-123 (boards, backlogs, filters)
+ * - /servicedesk/customer/portal/2/PROJECT-123
  */
 function parseJiraURL(url: URL): JiraURLInfo | null {
     const parts = url.pathname.split("/").filter(Boolean)
+    const commentId = getCommentId(url)
 
-    // Check if the URL matches the expected pattern /browse/PROJECT-123
-    if (parts[0] !== "browse" || parts.length !== 2) {
-        return null
+    if (parts[0] === "browse" && parts.length === 2) {
+        return parseIssueKey(parts[1], { commentId })
+    }
+
+    if (
+        parts[0] === "servicedesk"
+        && parts[1] === "customer"
+        && parts[2] === "portal"
+        && parts.length === 5
+    ) {
+        return parseIssueKey(parts[4], { portalId: parts[3], commentId })
     }
 
-    const issueParts = parts[1].split("-")
-    if (issueParts.length !== 2) {
+    const selectedIssue = url.searchParams.get("selectedIssue")
+    if (selectedIssue) {
+        return parseIssueKey(selectedIssue, { commentId })
+    }
+
+    return null
+}
+
+function parseIssueKey(
+    key: string,
+    extra: Pick<JiraURLInfo, "portalId" | "commentId">,
+): JiraURLInfo | null {
+    const match = key.match(ISSUE_KEY_PATTERN)
+    if (!match) {
         return null
     }
 
     return {
-        project: issueParts[0],
-        issueId: issueParts[1],
+        project: match[1].toUpperCase(),
+        issueId: match[2],
+        ...(extra.portalId ? { portalId: extra.portalId } : {}),
+        ...(extra.commentId ? { commentId: extra.commentId } : {}),
+    }
+}
+
+/**
+ * Comment links use ?focusedCommentId=123 and, on older servers, #comment-123
+ */
+function getCommentId(url: URL): string | undefined {
+    const focusedCommentId = url.searchParams.get("focusedCommentId")
+    if (focusedCommentId && /^\d+$/.test(focusedCommentId)) {
+        return focusedCommentId
     }
+    return url.hash.match(COMMENT_HASH_PATTERN)?.[1]
 }
 
 /**
- * Get clean URL without query parameters and trailing slashes
+ * Get clean URL without query parameters and trailing slashes.
+ * The comment is kept only when requested.
  */
-function getCleanURL(url: URL, urlInfo: JiraURLInfo): string {
-    return `${url.origin}/browse/${urlInfo.project}-${urlInfo.issueId}`
+function getCleanURL(
+    url: URL,
+    urlInfo: JiraURLInfo,
+    preserveCommentAnchor: boolean,
+): string {
+    const key = `${urlInfo.project}-${urlInfo.issueId}`
+    const issueURL = urlInfo.portalId
+        ? `${url.origin}/servicedesk/customer/portal/${urlInfo.portalId}/${key}`
+        : `${url.origin}/browse/${key}`
+    if (preserveCommentAnchor && urlInfo.commentId) {
+        return `${issueURL}?focusedCommentId=${urlInfo.commentId}`
+    }
+    return issueURL
 }
 
 /**
@@ -79,11 +137,53 @@ function formatToObsidianLink(
     url: URL,
     urlInfo: JiraURLInfo,
     cleanURL: string,
+    settings: AutomaticLinkerSettings,
+    onTrackerLink?: TrackerLinkCallback,
 ): string {
-    // Extract domain name (e.g., "work" from "sub-domain.work.com")
-    const domain = url.hostname.split(".")[1]
-    const wikiLink = `[[${domain}/jira/${urlInfo.project}/${urlInfo.issueId}]] [🔗](${cleanURL})`
-    return wikiLink
+    const domain = getLegacyDomain(url.hostname)
+    const key = `${urlInfo.project}-${urlInfo.issueId}`
+    return formatTrackerLink("jira", {
+        domain,
+        organization: getOrganizationName(url.hostname),
+        host: url.hostname,
+        project: urlInfo.project,
+        issueId: urlInfo.issueId,
+        key,
+        commentId: urlInfo.commentId,
+        owner: domain,
+        repo: urlInfo.project,
+        type: "issue",
+        id: key,
+    }, cleanURL, settings, onTrackerLink)
+}
+
+/**
+ * Extract the second label of a hostname (e.g. "work" from "sub-domain.work.com"),
+ * which the default link template has always used for {domain}
+ */
+function getLegacyDomain(hostname: string): string {
+    return hostname.split(".")[1] ?? ""
+}
+
+/**
+ * Extract the organization name from a hostname, e.g. "company" from
+ * "jira.eng.company.com" and "jira.company.co.uk", or "acme" from "acme.atlassian.net"
+ */
+function getOrganizationName(hostname: string): string {
+    const labels = hostname.split(".")
+    const hostedDomain = HOSTED_JIRA_DOMAINS.find(suffix => hostname.endsWith(`.${suffix}`))
+    if (hostedDomain) {
+        return labels[labels.length - hostedDomain.split(".").length - 1]
+    }
+
+    if (labels.length > 1) {
+        labels.pop()
+    }
+    // Second-level public suffixes such as "co.uk" or "com.au"
+    if (labels.length > 1 && GENERIC_SECOND_LEVEL_DOMAINS.has(labels[labels.length - 1])) {
+        labels.pop()
+    }
+    return labels[labels.length - 1]
 }
 
 /**
@@ -1,4 +1,5 @@
 import { AutomaticLinkerSettings } from "../settings/settings-info"
+import { formatTrackerLink, TrackerLinkCallback } from "./link-template"
 
 type LinearURLInfo = {
     workspace: string
@@ -10,11 +11,13 @@ type LinearURLInfo = {
  * [[linear/workspace/ISSUE-123]] [🔗](url)
  * @param url The URL to format
  * @param settings Plugin settings
+ * @param onTrackerLink Called with the produced link
  * @returns The formatted URL in Obsidian link format
  */
 export function formatLinearURL(
     url: string,
     settings: AutomaticLinkerSettings,
+    onTrackerLink?: TrackerLinkCallback,
 ): string {
     // Check if Linear URL formatting is enabled
     if (!settings.formatLinearURLs) {
@@ -41,7 +44,7 @@ export function formatLinearURL(
         }
 
         const cleanURL = getCleanURL(urlInfo)
-        return formatToObsidianLink(urlInfo, cleanURL)
+        return formatToObsidianLink(urlInfo, cleanURL, settings, onTrackerLink)
     }
     catch {
         // If URL is invalid, return original string
@@ -92,9 +95,17 @@ function getCleanURL(urlInfo: LinearURLInfo): string {
 function formatToObsidianLink(
     urlInfo: LinearURLInfo,
     cleanURL: string,
+    settings: AutomaticLinkerSettings,
+    onTrackerLink?: TrackerLinkCallback,
 ): string {
-    const wikiLink = `[[linear/${urlInfo.workspace}/${urlInfo.issueId}]] [🔗](${cleanURL})`
-    return wikiLink
+    return formatTrackerLink("linear", {
+        workspace: urlInfo.workspace,
+        issueId: urlInfo.issueId,
+        owner: urlInfo.workspace,
+        repo: urlInfo.issueId.split("-")[0],
+        type: "issue",
+        id: urlInfo.issueId,
+    }, cleanURL, settings, onTrackerLink)
 }
 
 /**
@@ -0,0 +1,187 @@
+import { AutomaticLinkerSettings } from "../settings/settings-info"
+
+export type TrackerService = "github" | "gitlab" | "jira" | "linear"
+
+/**
+ * How a tracker URL is turned into a wikilink.
+ * `prefix` and `segments` are joined with "/" to build the link target (empty
+ * parts are dropped), `alias` is the optional display text and `appendUrl`
+ * controls the trailing [🔗](url). All of them accept {placeholders}.
+ */
+export type TrackerLinkTemplate = {
+    prefix?: string
+    segments?: string[]
+    alias?: string
+    appendUrl?: boolean
+}
+
+export type TrackerLinkTemplates = Partial<Record<TrackerService, TrackerLinkTemplate>>
+
+/**
+ * A wikilink produced for a tracker URL, reported so that its target note can be created.
+ */
+export type TrackerLink = {
+    service: TrackerService
+    // Link target without brackets or alias, e.g. "github/owner/repo/pull/12"
+    target: string
+    url: string
+    values: Record<string, string | undefined>
+}
+
+export type TrackerLinkCallback = (link: TrackerLink) => void
+
+// Values available to the templates of each service, besides {url}
+// {owner}, {repo}, {type} and {id} are provided by every service for tracker note templates
+export const TRACKER_PLACEHOLDERS: Record<TrackerService, readonly string[]> = {
+    github: ["service", "host", "owner", "repository", "repo", "type", "id", "path"],
+    gitlab: ["host", "project", "owner", "repo", "type", "id"],
+    jira: ["domain", "organization", "host", "project", "issueId", "key", "commentId", "owner", "repo", "type", "id"],
+    linear: ["workspace", "issueId", "owner", "repo", "type", "id"],
+}
+
+export const DEFAULT_TRACKER_NOTE_TEMPLATE
+    = "---\nurl: {url}\nowner: {owner}\nrepo: {repo}\ntype: {type}\nid: {id}\n---\n"
+
+// The defaults reproduce the links produced before templates were configurable
+export const DEFAULT_TRACKER_LINK_TEMPLATES: Record<TrackerService, Required<TrackerLinkTemplate>> = {
+    github: { prefix: "{service}", segments: ["{owner}", "{repository}", "{path}"], alias: "", appendUrl: true },
+    gitlab: { prefix: "gitlab", segments: ["{project}", "{type}", "{id}"], alias: "", appendUrl: true },
+    jira: { prefix: "{domain}", segments: ["jira", "{project}", "{issueId}"], alias: "", appendUrl: true },
+    linear: { prefix: "linear", segments: ["{workspace}", "{issueId}"], alias: "", appendUrl: true },
+}
+
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g
+const TEMPLATE_KEYS = ["prefix", "segments", "alias", "appendUrl"]
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isTrackerService = (value: string): value is TrackerService =>
+    Object.prototype.hasOwnProperty.call(TRACKER_PLACEHOLDERS, value)
+
+const validateTemplateText = (
+    text: string,
+    service: TrackerService,
+    source: string,
+): string[] => {
+    const errors: string[] = []
+    const withoutPlaceholders = text.replace(PLACEHOLDER_PATTERN, "")
+    if (withoutPlaceholders.includes("{") || withoutPlaceholders.includes("}")) {
+        errors.push(`${source} has an unbalanced "{" or "}"`)
+    }
+
+    let match: RegExpExecArray | null
+    const pattern = new RegExp(PLACEHOLDER_PATTERN.source, "g")
+    while ((match = pattern.exec(text)) !== null) {
+        const name = match[1]
+        if (name !== "url" && !TRACKER_PLACEHOLDERS[service].includes(name)) {
+            errors.push(`${source} uses {${name}}, which is not available for ${service}`)
+        }
+    }
+    return errors
+}
+
+/**
+ * Validates the raw value of the "trackerLinkTemplates" setting.
+ * Returns an empty list when every template is usable.
+ */
+export const validateTrackerLinkTemplates = (value: unknown): string[] => {
+    if (!isPlainObject(value)) {
+        return ["Tracker link templates must be an object keyed by service"]
+    }
+
+    const errors: string[] = []
+    for (const [service, template] of Object.entries(value)) {
+        if (!isTrackerService(service)) {
+            errors.push(`Unknown service "${service}"`)
+            continue
+        }
+        if (!isPlainObject(template)) {
+            errors.push(`${service}: expected an object`)
+            continue
+        }
+
+        for (const key of Object.keys(template)) {
+            if (!TEMPLATE_KEYS.includes(key)) {
+                errors.push(`${service}: unknown key "${key}"`)
+            }
+        }
+        for (const key of ["prefix", "alias"] as const) {
+            const text = template[key]
+            if (text === undefined) continue
+            if (typeof text !== "string") {
+                errors.push(`${service}: "${key}" must be a string`)
+                continue
+            }
+            errors.push(...validateTemplateText(text, service, `${service}: "${key}"`))
+        }
+        if (template.segments !== undefined) {
+            if (!Array.isArray(template.segments) || template.segments.some(segment => typeof segment !== "string")) {
+                errors.push(`${service}: "segments" must be a list of strings`)
+            }
+            else {
+                for (const segment of template.segments as string[]) {
+                    errors.push(...validateTemplateText(segment, service, `${service}: "segments"`))
+                }
+            }
+        }
+        if (template.appendUrl !== undefined && typeof template.appendUrl !== "boolean") {
+            errors.push(`${service}: "appendUrl" must be true or false`)
+        }
+    }
+    return errors
+}
+
+const FRONTMATTER_PATTERN = /^---\r?\n[\s\S]*?\r?\n---(?=\r?\n|$)/
+
+const fillPlaceholders = (
+    text: string,
+    values: Record<string, string | undefined>,
+    format: (value: string) => string = value => value,
+): string =>
+    text.replace(PLACEHOLDER_PATTERN, (_placeholder, name: string) => format(values[name] ?? ""))
+
+/**
+ * Double-quotes a value that would not be read back as the same plain YAML string,
+ * e.g. titles containing ": " or " #", or values starting with an indicator such as "[".
+ */
+const quoteYamlValue = (value: string): string =>
+    /^[\s\-?:,[\]{}#&*!|>'"%@`]|\s$|: |:$| #|[\r\n]/.test(value) ? JSON.stringify(value) : value
+
+/**
+ * Builds the wikilink for a tracker URL from the configured template of the
+ * service, falling back to the default template for anything left unset.
+ */
+export const formatTrackerLink = (
+    service: TrackerService,
+    values: Record<string, string | undefined>,
+    cleanURL: string,
+    settings: AutomaticLinkerSettings,
+    onTrackerLink?: TrackerLinkCallback,
+): string => {
+    const configured = settings.trackerLinkTemplates?.[service] ?? {}
+    const template = { ...DEFAULT_TRACKER_LINK_TEMPLATES[service], ...configured }
+    const allValues = { ...values, url: cleanURL }
+
+    const target = [template.prefix, ...template.segments]
+        .map(part => fillPlaceholders(part, allValues))
+        .filter(part => part !== "")
+        .join("/")
+    const alias = fillPlaceholders(template.alias, allValues)
+    onTrackerLink?.({ service, target, url: cleanURL, values })
+
+    const wikiLink = alias ? `[[${target}|${alias}]]` : `[[${target}]]`
+    return template.appendUrl ? `${wikiLink} [🔗](${cleanURL})` : wikiLink
+}
+
+/**
+ * Renders the content of the note created for a tracker link.
+ * Accepts the placeholders of the link's service, {url} and {service}.
+ * Values filled into the template's frontmatter are quoted when YAML requires it.
+ */
+export const renderTrackerNote = (template: string, link: TrackerLink): string => {
+    const values = { ...link.values, service: link.values.service ?? link.service, url: link.url }
+    const frontmatter = template.match(FRONTMATTER_PATTERN)?.[0] ?? ""
+    return fillPlaceholders(frontmatter, values, quoteYamlValue)
+        + fillPlaceholders(template.slice(frontmatter.length), values)
+}
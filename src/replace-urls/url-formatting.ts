@@ -1,30 +1,39 @@
 import { mapMarkdownProse } from "../markdown-segments"
 import { AutomaticLinkerSettings } from "../settings/settings-info"
 import { formatGitHubURL } from "./github"
+import { formatGitLabURL } from "./gitlab"
 import { formatJiraURL } from "./jira"
 import { formatLinearURL } from "./linear"
+import { TrackerLinkCallback } from "./link-template"
+import { formatURLWithUserRules } from "./user-rules"
 
 export type UrlFormatter = (
     url: string,
     settings: AutomaticLinkerSettings,
+    onTrackerLink?: TrackerLinkCallback,
 ) => string
 
 export interface FormatURLsInTextOptions {
     text: string
     settings: AutomaticLinkerSettings
     formatters?: readonly UrlFormatter[]
+    // Called for every tracker URL turned into a wikilink
+    onTrackerLink?: TrackerLinkCallback
 }
 
 const URL_PATTERN = /(?:https?:\/\/|linear:\/\/)[^\s<>\]]+/g
 
-const formatGitHubURLIfEnabled: UrlFormatter = (url, settings) =>
-    settings.formatGitHubURLs ? formatGitHubURL(url, settings) : url
+const formatGitHubURLIfEnabled: UrlFormatter = (url, settings, onTrackerLink) =>
+    settings.formatGitHubURLs ? formatGitHubURL(url, settings, onTrackerLink) : url
 
-const formatJiraURLIfEnabled: UrlFormatter = (url, settings) =>
-    settings.formatJiraURLs ? formatJiraURL(url, settings) : url
+const formatGitLabURLIfEnabled: UrlFormatter = (url, settings, onTrackerLink) =>
+    settings.formatGitLabURLs ? formatGitLabURL(url, settings, onTrackerLink) : url
 
-const formatLinearURLIfEnabled: UrlFormatter = (url, settings) =>
-    settings.formatLinearURLs ? formatLinearURL(url, settings) : url
+const formatJiraURLIfEnabled: UrlFormatter = (url, settings, onTrackerLink) =>
+    settings.formatJiraURLs ? formatJiraURL(url, settings, onTrackerLink) : url
+
+const formatLinearURLIfEnabled: UrlFormatter = (url, settings, onTrackerLink) =>
+    settings.formatLinearURLs ? formatLinearURL(url, settings, onTrackerLink) : url
 
 const TRAILING_PUNCTUATION = new Set([".", ",", ";", "!", "?", "]", "}"])
 
@@ -68,8 +77,11 @@ const splitTrailingBoundary = (match: string): { url: string, suffix: string } =
     return { url, suffix }
 }
 
+// User-defined rules run first so they can override the built-in formatters
 export const DEFAULT_URL_FORMATTERS: readonly UrlFormatter[] = [
+    formatURLWithUserRules,
     formatGitHubURLIfEnabled,
+    formatGitLabURLIfEnabled,
     formatJiraURLIfEnabled,
     formatLinearURLIfEnabled,
 ]
@@ -78,9 +90,10 @@ export const formatURLWithAdapters = (
     url: string,
     settings: AutomaticLinkerSettings,
     formatters: readonly UrlFormatter[] = DEFAULT_URL_FORMATTERS,
+    onTrackerLink?: TrackerLinkCallback,
 ): string => {
     for (const formatter of formatters) {
-        const formatted = formatter(url, settings)
+        const formatted = formatter(url, settings, onTrackerLink)
         if (formatted !== url) {
             return formatted
         }
@@ -93,6 +106,7 @@ export const formatURLsInText = ({
     text,
     settings,
     formatters = DEFAULT_URL_FORMATTERS,
+    onTrackerLink,
 }: FormatURLsInTextOptions): string =>
     mapMarkdownProse(
         text,
@@ -109,6 +123,6 @@ export const formatURLsInText = ({
 
                 const { url, suffix } = splitTrailingBoundary(match)
 
-                return formatURLWithAdapters(url, settings, formatters) + suffix
+                return formatURLWithAdapters(url, settings, formatters, onTrackerLink) + suffix
             }),
     )
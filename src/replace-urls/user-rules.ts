@@ -0,0 +1,169 @@
+import { AutomaticLinkerSettings } from "../settings/settings-info"
+
+/**
+ * A user-defined URL formatter rule.
+ * `path` is a regular expression matched against the whole URL path; its named
+ * groups, plus {url}, {host} and {origin}, can be used as {placeholders} in `template`.
+ */
+export type UrlFormatterRule = {
+    host: string
+    path: string
+    template: string
+}
+
+type CompiledUrlFormatterRule = {
+    host: string
+    path: RegExp
+    template: string
+}
+
+const BUILT_IN_PLACEHOLDERS = ["url", "host", "origin"]
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g
+const NAMED_GROUP_PATTERN = /\(\?<([A-Za-z_$][\w$]*)>/g
+
+const compiledRulesCache = new WeakMap<readonly UrlFormatterRule[], CompiledUrlFormatterRule[]>()
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value)
+
+export const normalizeHost = (host: string): string =>
+    host.trim().replace(/^https?:\/\//, "").replace(/\/+$/, "").toLowerCase()
+
+const compilePathPattern = (path: string): RegExp | null => {
+    try {
+        return new RegExp(`^(?:${path})$`)
+    }
+    catch (_error) {
+        return null
+    }
+}
+
+const getNamedGroups = (path: string): string[] => {
+    const names: string[] = []
+    let match: RegExpExecArray | null
+    const pattern = new RegExp(NAMED_GROUP_PATTERN.source, "g")
+    while ((match = pattern.exec(path)) !== null) {
+        names.push(match[1])
+    }
+    return names
+}
+
+/**
+ * Returns the problems with a template, given the placeholders it may use.
+ */
+const validateTemplate = (template: string, groupNames: string[]): string[] => {
+    const errors: string[] = []
+    const withoutPlaceholders = template.replace(PLACEHOLDER_PATTERN, "")
+    if (withoutPlaceholders.includes("{") || withoutPlaceholders.includes("}")) {
+        errors.push("\"template\" has an unbalanced \"{\" or \"}\"")
+    }
+
+    let match: RegExpExecArray | null
+    const pattern = new RegExp(PLACEHOLDER_PATTERN.source, "g")
+    while ((match = pattern.exec(template)) !== null) {
+        const name = match[1]
+        if (!BUILT_IN_PLACEHOLDERS.includes(name) && !groupNames.includes(name)) {
+            errors.push(`"template" uses {${name}}, which is not a named group in "path"`)
+        }
+    }
+    return errors
+}
+
+/**
+ * Validates the raw value of the "urlFormatterRules" setting.
+ * Returns an empty list when every rule is usable.
+ */
+export const validateUrlFormatterRules = (value: unknown): string[] => {
+    if (!Array.isArray(value)) {
+        return ["URL formatter rules must be a list"]
+    }
+
+    const errors: string[] = []
+    value.forEach((rule: unknown, index) => {
+        const source = `Rule ${index + 1}`
+        if (!isPlainObject(rule)) {
+            errors.push(`${source}: expected an object`)
+            return
+        }
+        if (typeof rule.host !== "string" || normalizeHost(rule.host) === "") {
+            errors.push(`${source}: "host" must be a non-empty string`)
+        }
+        if (typeof rule.path !== "string" || compilePathPattern(rule.path) === null) {
+            errors.push(`${source}: "path" must be a valid regular expression`)
+        }
+        if (typeof rule.template !== "string" || rule.template.trim() === "") {
+            errors.push(`${source}: "template" must be a non-empty string`)
+        }
+        else {
+            const groupNames = typeof rule.path === "string" ? getNamedGroups(rule.path) : []
+            errors.push(...validateTemplate(rule.template, groupNames).map(error => `${source}: ${error}`))
+        }
+    })
+    return errors
+}
+
+const compileRules = (rules: readonly UrlFormatterRule[]): CompiledUrlFormatterRule[] => {
+    const cached = compiledRulesCache.get(rules)
+    if (cached) return cached
+
+    // Rules that fail validation are skipped rather than breaking formatting
+    const compiled = rules.flatMap((rule): CompiledUrlFormatterRule[] => {
+        if (validateUrlFormatterRules([rule]).length > 0) return []
+        const path = compilePathPattern(rule.path)
+        return path ? [{ host: normalizeHost(rule.host), path, template: rule.template }] : []
+    })
+    compiledRulesCache.set(rules, compiled)
+    return compiled
+}
+
+/**
+ * Matches a hostname against a normalized rule host; "*.example.com" matches subdomains.
+ */
+export const matchesHost = (hostname: string, host: string): boolean => {
+    if (host.startsWith("*.")) {
+        return hostname.endsWith(host.slice(1))
+    }
+    return hostname === host
+}
+
+/**
+ * Format a URL with the first matching user-defined rule.
+ * Returns the URL unchanged when no rule matches.
+ */
+export function formatURLWithUserRules(
+    url: string,
+    settings: AutomaticLinkerSettings,
+): string {
+    const rules = compileRules(settings.urlFormatterRules ?? [])
+    if (rules.length === 0) {
+        return url
+    }
+
+    let parsedURL: URL
+    try {
+        parsedURL = new URL(url)
+    }
+    catch {
+        return url
+    }
+
+    for (const rule of rules) {
+        if (!matchesHost(parsedURL.hostname.toLowerCase(), rule.host)) continue
+
+        const match = parsedURL.pathname.match(rule.path)
+        if (!match) continue
+
+        const values: Record<string, string | undefined> = {
+            ...(match as RegExpMatchArray & { groups?: Record<string, string | undefined> }).groups,
+            url,
+            host: parsedURL.host,
+            origin: parsedURL.origin,
+        }
+        return rule.template.replace(
+            PLACEHOLDER_PATTERN,
+            (_placeholder, name: string) => values[name] ?? "",
+        )
+    }
+
+    return url
+}
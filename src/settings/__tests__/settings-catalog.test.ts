@@ -27,6 +27,7 @@ describe("SETTINGS_CATALOG", () => {
             "replaceUrlWithTitleIgnoreDomains",
             "githubEnterpriseURLs",
             "jiraURLs",
+            "gitlabURLs",
         ])
     })
 
@@ -55,6 +56,12 @@ describe("settings projections", () => {
             removeAliasInDirs: ["archive"],
             ignoreHeadings: true,
             ignoreMarkdownTables: true,
+            ignoreTerms: ["Go"],
+            linkFirstOccurrenceOnly: true,
+            linkFirstOccurrencePerSection: true,
+            minCandidateLength: 3,
+            minCjkCandidateLength: 2,
+            stopWordLanguages: ["en"],
         }, "pages")).toEqual({
             proximityBasedLinking: false,
             baseDir: "pages",
@@ -65,6 +72,12 @@ describe("settings projections", () => {
             removeAliasInDirs: ["archive"],
             ignoreHeadings: true,
             ignoreMarkdownTables: true,
+            ignoreTerms: ["Go"],
+            linkFirstOccurrenceOnly: true,
+            linkFirstOccurrencePerSection: true,
+            minCandidateLength: 3,
+            minCjkCandidateLength: 2,
+            stopWordLanguages: ["en"],
         })
     })
 
@@ -75,13 +88,23 @@ describe("settings projections", () => {
             githubEnterpriseURLs: ["github.enterprise.com"],
             formatJiraURLs: false,
             jiraURLs: ["jira.example.com"],
+            preserveJiraCommentAnchor: true,
             formatLinearURLs: true,
+            formatGitLabURLs: true,
+            gitlabURLs: ["gitlab.company.com"],
+            urlFormatterRules: [{ host: "example.com", path: "/(?<id>\\d+)", template: "[[example/{id}]]" }],
+            trackerLinkTemplates: { jira: { prefix: "tickets", segments: ["{key}"] } },
         })).toEqual({
             formatGitHubURLs: false,
             githubEnterpriseURLs: ["github.enterprise.com"],
             formatJiraURLs: false,
             jiraURLs: ["jira.example.com"],
+            preserveJiraCommentAnchor: true,
             formatLinearURLs: true,
+            formatGitLabURLs: true,
+            gitlabURLs: ["gitlab.company.com"],
+            urlFormatterRules: [{ host: "example.com", path: "/(?<id>\\d+)", template: "[[example/{id}]]" }],
+            trackerLinkTemplates: { jira: { prefix: "tickets", segments: ["{key}"] } },
         })
     })
 })
@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_SETTINGS } from "../settings-catalog"
+import {
+    isFolderProfileOff,
+    matchesProfileFolder,
+    resolveFolderSettings,
+    validateFolderProfiles,
+    validateSettingOverrides,
+} from "../settings-profiles"
+
+describe("matchesProfileFolder", () => {
+    it("matches plain folders by path prefix", () => {
+        expect(matchesProfileFolder("journal/2025-01-01.md", "journal")).toBe(true)
+        expect(matchesProfileFolder("journal/2025/01.md", "/journal/")).toBe(true)
+        expect(matchesProfileFolder("journaling/today.md", "journal")).toBe(false)
+    })
+
+    it("matches globs against the folder or note path", () => {
+        expect(matchesProfileFolder("projects/a/meetings/kickoff.md", "projects/*/meetings")).toBe(true)
+        expect(matchesProfileFolder("projects/a/b/meetings/kickoff.md", "projects/*/meetings")).toBe(false)
+        expect(matchesProfileFolder("projects/a/b/meetings/kickoff.md", "**/meetings")).toBe(true)
+        expect(matchesProfileFolder("meetings/kickoff.md", "**/meetings")).toBe(true)
+        expect(matchesProfileFolder("journal/2025-01-01.md", "journal/2025-*")).toBe(true)
+    })
+})
+
+describe("resolveFolderSettings", () => {
+    const settings = {
+        ...DEFAULT_SETTINGS,
+        folderProfiles: [
+            { folder: "meetings", settings: { ignoreHeadings: true, ignoreMarkdownTables: true } },
+            { folder: "meetings/private", settings: { ignoreHeadings: false } },
+            { folder: "reference", off: true },
+        ],
+    }
+
+    it("returns the global settings when no profile matches", () => {
+        expect(resolveFolderSettings(settings, "notes/today.md")).toBe(settings)
+    })
+
+    it("merges matching profiles in order", () => {
+        const resolved = resolveFolderSettings(settings, "meetings/private/1on1.md")
+
+        expect(resolved.ignoreHeadings).toBe(false)
+        expect(resolved.ignoreMarkdownTables).toBe(true)
+        expect(settings.ignoreHeadings).toBe(DEFAULT_SETTINGS.ignoreHeadings)
+    })
+
+    it("applies linking settings that are read when links are replaced", () => {
+        const resolved = resolveFolderSettings({
+            ...DEFAULT_SETTINGS,
+            folderProfiles: [
+                {
+                    folder: "people",
+                    settings: {
+                        removeAliasInDirs: ["people"],
+                        preventSelfLinking: true,
+                        proximityBasedLinking: false,
+                    },
+                },
+            ],
+        }, "people/alice.md")
+
+        expect(resolved.removeAliasInDirs).toEqual(["people"])
+        expect(resolved.preventSelfLinking).toBe(true)
+        expect(resolved.proximityBasedLinking).toBe(false)
+    })
+
+    it("ignores invalid overrides in stored profiles", () => {
+        const resolved = resolveFolderSettings({
+            ...DEFAULT_SETTINGS,
+            folderProfiles: [
+                { folder: "journal", settings: { ignoreCase: "no", unknown: true } as never },
+            ],
+        }, "journal/today.md")
+
+        expect(resolved.ignoreCase).toBe(DEFAULT_SETTINGS.ignoreCase)
+        expect(resolved).not.toHaveProperty("unknown")
+    })
+
+    it("detects folders where formatting is off", () => {
+        expect(isFolderProfileOff(settings, "reference/book.md")).toBe(true)
+        expect(isFolderProfileOff(settings, "meetings/kickoff.md")).toBe(false)
+        expect(isFolderProfileOff({
+            ...settings,
+            folderProfiles: [
+                ...settings.folderProfiles,
+                { folder: "reference/linked", off: false },
+            ],
+        }, "reference/linked/book.md")).toBe(false)
+    })
+})
+
+describe("validation", () => {
+    it("reports unknown keys and mistyped values", () => {
+        expect(validateSettingOverrides({
+            ignoreHeadings: true,
+            ignoreHeading: true,
+            ignoreTerms: "archive",
+            folderProfiles: [],
+        }, "Profile 1")).toEqual({
+            overrides: { ignoreHeadings: true },
+            errors: [
+                "Profile 1: unknown setting \"ignoreHeading\"",
+                "Profile 1: \"ignoreTerms\" must be a list, got string",
+                "Profile 1: \"folderProfiles\" can only be set globally",
+            ],
+        })
+    })
+
+    it("validates rule lists and objects like the settings tab", () => {
+        const urlFormatterRules = [
+            { host: "gitlab.company.com", path: "/(?<id>\\d+)", template: "[[mr/{id}]]" },
+        ]
+        expect(validateSettingOverrides({
+            urlFormatterRules,
+            trackerLinkTemplates: { jira: 5 },
+        }, "Profile 1")).toEqual({
+            overrides: { urlFormatterRules },
+            errors: [
+                "Profile 1: \"trackerLinkTemplates\": jira: expected an object",
+            ],
+        })
+        expect(validateSettingOverrides({ trackerLinkTemplates: null }, "Profile 1").errors).toEqual([
+            "Profile 1: \"trackerLinkTemplates\": Tracker link templates must be an object keyed by service",
+        ])
+    })
+
+    it("rejects AI, network and global behaviour settings", () => {
+        expect(validateSettingOverrides({
+            aiEndpoint: "https://attacker.example.com",
+            aiExtraHeaders: {},
+            replaceUrlWithTitle: true,
+            formatOnSave: true,
+            debug: true,
+        }, "Profile 1")).toEqual({
+            overrides: {},
+            errors: [
+                "Profile 1: \"aiEndpoint\" can only be set globally",
+                "Profile 1: \"aiExtraHeaders\" can only be set globally",
+                "Profile 1: \"replaceUrlWithTitle\" can only be set globally",
+                "Profile 1: \"formatOnSave\" can only be set globally",
+                "Profile 1: \"debug\" can only be set globally",
+            ],
+        })
+    })
+
+    it("accepts settings that are only read when links are replaced", () => {
+        expect(validateSettingOverrides({ removeAliasInDirs: ["people"] }, "Profile 1")).toEqual({
+            overrides: { removeAliasInDirs: ["people"] },
+            errors: [],
+        })
+        expect(validateSettingOverrides({ preventSelfLinking: true }, "Profile 1")).toEqual({
+            overrides: { preventSelfLinking: true },
+            errors: [],
+        })
+        expect(validateSettingOverrides({ proximityBasedLinking: false }, "Profile 1")).toEqual({
+            overrides: { proximityBasedLinking: false },
+            errors: [],
+        })
+    })
+
+    it("rejects settings that affect the link index", () => {
+        expect(validateSettingOverrides({
+            ignoreCase: true,
+            includeAliases: false,
+            excludeDirsFromAutoLinking: ["archive"],
+            respectNewFileFolderPath: false,
+        }, "Profile 1")).toEqual({
+            overrides: {},
+            errors: [
+                "Profile 1: \"ignoreCase\" affects the link index and can only be set globally",
+                "Profile 1: \"includeAliases\" affects the link index and can only be set globally",
+                "Profile 1: \"excludeDirsFromAutoLinking\" affects the link index and can only be set globally",
+                "Profile 1: \"respectNewFileFolderPath\" affects the link index and can only be set globally",
+            ],
+        })
+    })
+
+    it("validates folder profiles", () => {
+        expect(validateFolderProfiles([
+            { folder: "journal", settings: { linkFirstOccurrenceOnly: true } },
+        ])).toEqual([])
+        expect(validateFolderProfiles({})).toEqual([
+            "Folder profiles must be a list, got object",
+        ])
+        expect(validateFolderProfiles([
+            { folder: "", off: "yes", path: "x" },
+        ])).toEqual([
+            "Profile 1: \"folder\" must be a non-empty string",
+            "Profile 1: \"off\" must be a boolean",
+            "Profile 1: unknown property \"path\"",
+        ])
+    })
+})
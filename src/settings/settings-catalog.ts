@@ -1,4 +1,22 @@
 import { ReplaceLinksSettings } from "../replace-links/replace-links"
+import {
+    DEFAULT_TITLE_CLEANUP_RULES,
+    TitleCleanupRule,
+} from "../replace-url-with-title/utils/title-cleanup"
+import { DEFAULT_TRACKER_NOTE_TEMPLATE, TrackerLinkTemplates } from "../replace-urls/link-template"
+import { UrlFormatterRule } from "../replace-urls/user-rules"
+import { AI_PROVIDER_NAMES, AIProviderKind } from "../utils/ai-provider-kinds"
+
+/**
+ * Settings overrides for notes under a folder, matched by path prefix (e.g. "journal")
+ * or glob (e.g. "journal/20*").
+ */
+export interface FolderSettingsProfile {
+    folder: string
+    // Skip formatting entirely for matching notes
+    off?: boolean
+    settings?: Partial<AutomaticLinkerSettings>
+}
 
 export type AutomaticLinkerSettings = {
     formatOnSave: boolean
@@ -12,26 +30,51 @@ export type AutomaticLinkerSettings = {
     githubEnterpriseURLs: string[]
     formatJiraURLs: boolean
     jiraURLs: string[]
+    preserveJiraCommentAnchor: boolean
     formatLinearURLs: boolean
+    formatGitLabURLs: boolean
+    gitlabURLs: string[]
+    urlFormatterRules: UrlFormatterRule[]
+    trackerLinkTemplates: TrackerLinkTemplates
+    createTrackerNotes: boolean
+    trackerNoteTemplate: string
     debug: boolean
     ignoreCase: boolean
     matchSentenceCase: boolean
     replaceUrlWithTitle: boolean
     replaceUrlWithTitleIgnoreDomains: string[]
+    urlTitleCacheTtlDays: number
+    urlTitleRetryMinutes: number
+    urlTitleCleanupRules: TitleCleanupRule[]
+    urlTitleFetchConcurrency: number
+    urlTitleFetchTimeoutMs: number
+    urlTitleFetchBudgetMs: number
     excludeDirsFromAutoLinking: string[]
     preventSelfLinking: boolean
     removeAliasInDirs: string[]
+    ignoreTerms: string[]
+    linkFirstOccurrenceOnly: boolean
+    linkFirstOccurrencePerSection: boolean
+    minCandidateLength: number
+    minCjkCandidateLength: number
+    stopWordLanguages: string[]
     ignoreMarkdownTables: boolean
     runLinterAfterFormatting: boolean
     runPrettierAfterFormatting: boolean
     formatDelayMs: number
     aiEnabled: boolean
+    aiProvider: AIProviderKind
     aiEndpoint: string
     aiModel: string
+    aiApiKey: string
+    aiExtraHeaders: Record<string, string>
     aiMaxContext: number
+    aiMaxRetries: number
+    aiBatchMaxChars: number
+    folderProfiles: FolderSettingsProfile[]
 }
 
-export type SettingControl = "toggle" | "text" | "textarea"
+export type SettingControl = "toggle" | "text" | "textarea" | "json" | "dropdown"
 
 export interface SettingCatalogEntry<K extends keyof AutomaticLinkerSettings = keyof AutomaticLinkerSettings> {
     key: K
@@ -40,6 +83,10 @@ export interface SettingCatalogEntry<K extends keyof AutomaticLinkerSettings = k
     description: string
     control: SettingControl
     placeholder?: string
+    // Values and labels of a dropdown
+    options?: Record<string, string>
+    // Masks the value of a text input
+    secret?: boolean
     multiline?: boolean
     rows?: number
     cols?: number
@@ -59,23 +106,48 @@ export const DEFAULT_SETTINGS: AutomaticLinkerSettings = {
     githubEnterpriseURLs: [],
     formatJiraURLs: true,
     jiraURLs: [],
+    preserveJiraCommentAnchor: false,
     formatLinearURLs: false,
+    formatGitLabURLs: false,
+    gitlabURLs: [],
+    urlFormatterRules: [],
+    trackerLinkTemplates: {},
+    createTrackerNotes: false,
+    trackerNoteTemplate: DEFAULT_TRACKER_NOTE_TEMPLATE,
     debug: false,
     ignoreCase: true,
     matchSentenceCase: true,
     replaceUrlWithTitle: true,
     replaceUrlWithTitleIgnoreDomains: [],
+    urlTitleCacheTtlDays: 30,
+    urlTitleRetryMinutes: 60,
+    urlTitleCleanupRules: DEFAULT_TITLE_CLEANUP_RULES,
+    urlTitleFetchConcurrency: 4,
+    urlTitleFetchTimeoutMs: 5000,
+    urlTitleFetchBudgetMs: 3000,
     excludeDirsFromAutoLinking: [],
     preventSelfLinking: false,
     removeAliasInDirs: [],
+    ignoreTerms: [],
+    linkFirstOccurrenceOnly: false,
+    linkFirstOccurrencePerSection: false,
+    minCandidateLength: 1,
+    minCjkCandidateLength: 1,
+    stopWordLanguages: [],
     ignoreMarkdownTables: false,
     runLinterAfterFormatting: false,
     runPrettierAfterFormatting: false,
     formatDelayMs: 1,
     aiEnabled: false,
+    aiProvider: "openai-compatible",
     aiEndpoint: "http://localhost:1234/v1",
     aiModel: "gemma-4-7b",
+    aiApiKey: "",
+    aiExtraHeaders: {},
     aiMaxContext: 500,
+    aiMaxRetries: 2,
+    aiBatchMaxChars: 4000,
+    folderProfiles: [],
 }
 
 export const SETTINGS_CATALOG = [
@@ -142,6 +214,24 @@ export const SETTINGS_CATALOG = [
         control: "toggle",
         refreshesIndex: false,
     },
+    {
+        key: "linkFirstOccurrenceOnly",
+        group: "Formatting",
+        name: "Link first occurrence only",
+        description:
+            "When enabled, only the first mention of each note is linked and later mentions stay plain text. Existing links to the same note count as the first mention.",
+        control: "toggle",
+        refreshesIndex: false,
+    },
+    {
+        key: "linkFirstOccurrencePerSection",
+        group: "Formatting",
+        name: "First occurrence per section",
+        description:
+            "When 'Link first occurrence only' is ON, link the first mention of each note in every section (heading) instead of once per note.",
+        control: "toggle",
+        refreshesIndex: false,
+    },
     {
         key: "ignoreCase",
         group: "Formatting",
@@ -191,6 +281,60 @@ export const SETTINGS_CATALOG = [
         multiline: true,
         refreshesIndex: true,
     },
+    {
+        key: "minCandidateLength",
+        group: "Formatting",
+        name: "Minimum match length",
+        description:
+            "Text shorter than this number of characters is not linked (e.g. 3 skips 'Go' and 'UI'). A note can opt back in with the 'automatic-linker-min-length' frontmatter property.",
+        control: "text",
+        placeholder: "1",
+        refreshesIndex: false,
+    },
+    {
+        key: "minCjkCandidateLength",
+        group: "Formatting",
+        name: "Minimum match length for CJK text",
+        description:
+            "Minimum number of characters for Chinese, Japanese and Korean text, which packs more meaning into fewer characters.",
+        control: "text",
+        placeholder: "1",
+        refreshesIndex: false,
+    },
+    {
+        key: "stopWordLanguages",
+        group: "Formatting",
+        name: "Stop word languages",
+        description:
+            "Languages whose common words (e.g. 'it', 'the') are never linked, one code per line. Available: en, de, fr, es, ja.",
+        control: "textarea",
+        placeholder: "en",
+        multiline: true,
+        refreshesIndex: false,
+    },
+    {
+        key: "ignoreTerms",
+        group: "Formatting",
+        name: "Ignored terms",
+        description:
+            "Terms that are never linked, one per line. Wrap a term in slashes to use a regular expression matched against the whole term (e.g. /[A-Z]{2}/). Matching follows the 'Ignore case' setting. Notes can add their own terms with the 'automatic-linker-ignore-terms' frontmatter list.",
+        control: "textarea",
+        placeholder: "Go\n/v\\d+/",
+        multiline: true,
+        refreshesIndex: false,
+    },
+    {
+        key: "folderProfiles",
+        group: "Formatting",
+        name: "Folder profiles",
+        description:
+            "JSON list of per-folder overrides. Each profile matches notes by folder prefix or glob and merges its settings over the global ones; later profiles win. Only linking and URL formatting settings can be overridden; settings that affect the link index (e.g. 'Ignore case'), AI, URL title fetching and integrations are global. Set \"off\": true to skip formatting in that folder.",
+        control: "json",
+        placeholder: "[\n  { \"folder\": \"journal\", \"settings\": { \"linkFirstOccurrenceOnly\": true } },\n  { \"folder\": \"meetings\", \"settings\": { \"ignoreHeadings\": true } },\n  { \"folder\": \"reference\", \"off\": true }\n]",
+        rows: 8,
+        cols: 50,
+        refreshesIndex: false,
+    },
     {
         key: "runLinterAfterFormatting",
         group: "Integrations",
@@ -241,6 +385,68 @@ export const SETTINGS_CATALOG = [
         cols: 50,
         refreshesIndex: false,
     },
+    {
+        key: "urlTitleCacheTtlDays",
+        group: "URL Replacement with Title",
+        name: "Title cache duration (days)",
+        description:
+            "Fetched titles are kept across restarts and fetched again after this many days. Set to 0 to keep them forever.",
+        control: "text",
+        placeholder: "30",
+        refreshesIndex: false,
+    },
+    {
+        key: "urlTitleRetryMinutes",
+        group: "URL Replacement with Title",
+        name: "Retry failed URLs after (minutes)",
+        description:
+            "URLs whose title could not be fetched are retried after this many minutes, doubling after every further failure.",
+        control: "text",
+        placeholder: "60",
+        refreshesIndex: false,
+    },
+    {
+        key: "urlTitleFetchConcurrency",
+        group: "URL Replacement with Title",
+        name: "Parallel title requests",
+        description:
+            "Maximum number of URL titles fetched at the same time.",
+        control: "text",
+        placeholder: "4",
+        refreshesIndex: false,
+    },
+    {
+        key: "urlTitleFetchTimeoutMs",
+        group: "URL Replacement with Title",
+        name: "Title request timeout (ms)",
+        description:
+            "A URL whose page does not load within this time is treated as failed. Set to 0 to wait indefinitely.",
+        control: "text",
+        placeholder: "5000",
+        refreshesIndex: false,
+    },
+    {
+        key: "urlTitleFetchBudgetMs",
+        group: "URL Replacement with Title",
+        name: "Title fetching time budget (ms)",
+        description:
+            "Formatting waits at most this long for titles and uses the ones that are ready; the others are fetched in the background for the next format. Set to 0 to wait for every title.",
+        control: "text",
+        placeholder: "3000",
+        refreshesIndex: false,
+    },
+    {
+        key: "urlTitleCleanupRules",
+        group: "URL Replacement with Title",
+        name: "Title cleanup rules",
+        description:
+            "JSON list of rules that clean up fetched titles per host (\"*.example.com\" for subdomains). Every match of the regular expression \"pattern\" is replaced with \"replacement\", or removed when it is not set.",
+        control: "json",
+        placeholder: "[\n  { \"host\": \"github.com\", \"pattern\": \"\\\\s+·\\\\s+GitHub$\" }\n]",
+        rows: 8,
+        cols: 50,
+        refreshesIndex: false,
+    },
     {
         key: "formatGitHubURLs",
         group: "URL Formatting for GitHub",
@@ -285,6 +491,15 @@ export const SETTINGS_CATALOG = [
         cols: 50,
         refreshesIndex: false,
     },
+    {
+        key: "preserveJiraCommentAnchor",
+        group: "URL Formatting for Jira",
+        name: "Keep links to Jira comments",
+        description:
+            "When enabled, URLs that point to a comment keep ?focusedCommentId in the formatted link instead of linking to the issue.",
+        control: "toggle",
+        refreshesIndex: false,
+    },
     {
         key: "formatLinearURLs",
         group: "URL Formatting for Linear",
@@ -294,6 +509,73 @@ export const SETTINGS_CATALOG = [
         control: "toggle",
         refreshesIndex: false,
     },
+    {
+        key: "formatGitLabURLs",
+        group: "URL Formatting for GitLab",
+        name: "Format GitLab URLs on save",
+        description:
+            "When enabled, GitLab merge request, issue and commit URLs will be formatted when saving the file.",
+        control: "toggle",
+        refreshesIndex: false,
+    },
+    {
+        key: "gitlabURLs",
+        group: "URL Formatting for GitLab",
+        name: "Self-hosted GitLab URLs",
+        description:
+            "Add your self-hosted GitLab URLs, one per line (e.g. gitlab.company.com). gitlab.com is always recognized.",
+        control: "textarea",
+        placeholder: "gitlab.company.com",
+        multiline: true,
+        rows: 4,
+        cols: 50,
+        refreshesIndex: false,
+    },
+    {
+        key: "urlFormatterRules",
+        group: "Custom URL Formatting",
+        name: "URL formatter rules",
+        description:
+            "JSON list of rules applied before the built-in formatters. Each rule matches a host (\"*.example.com\" for subdomains) and a regular expression for the whole URL path; named groups, {url}, {host} and {origin} can be used in the template.",
+        control: "json",
+        placeholder: "[\n  {\n    \"host\": \"gitlab.company.com\",\n    \"path\": \"/(?<group>.+)/(?<project>[^/]+)/-/merge_requests/(?<id>\\\\d+)\",\n    \"template\": \"[[gitlab/{group}/{project}/mr/{id}]] [🔗]({url})\"\n  }\n]",
+        rows: 8,
+        cols: 50,
+        refreshesIndex: false,
+    },
+    {
+        key: "trackerLinkTemplates",
+        group: "Custom URL Formatting",
+        name: "Tracker link templates",
+        description:
+            "JSON object that customizes the links built for github, gitlab, jira and linear URLs. \"prefix\" and \"segments\" are joined with \"/\" to build the link target, \"alias\" sets the display text and \"appendUrl\" controls the trailing link to the URL. Unset keys keep the default format.",
+        control: "json",
+        placeholder: "{\n  \"jira\": {\n    \"prefix\": \"tickets\",\n    \"segments\": [\"{key}\"],\n    \"appendUrl\": false\n  }\n}",
+        rows: 8,
+        cols: 50,
+        refreshesIndex: false,
+    },
+    {
+        key: "createTrackerNotes",
+        group: "Custom URL Formatting",
+        name: "Create notes for tracker links",
+        description:
+            "When enabled, formatting a GitHub, GitLab, Jira or Linear URL creates the note it links to if it does not exist yet.",
+        control: "toggle",
+        refreshesIndex: false,
+    },
+    {
+        key: "trackerNoteTemplate",
+        group: "Custom URL Formatting",
+        name: "Tracker note template",
+        description:
+            "Content of the notes created for tracker links. {url}, {service}, {owner}, {repo}, {type} and {id} are replaced, as well as the placeholders of the tracker link templates.",
+        control: "textarea",
+        placeholder: DEFAULT_TRACKER_NOTE_TEMPLATE,
+        rows: 8,
+        cols: 50,
+        refreshesIndex: false,
+    },
     {
         key: "showNotice",
         group: "Debug",
@@ -320,12 +602,22 @@ export const SETTINGS_CATALOG = [
         control: "toggle",
         refreshesIndex: false,
     },
+    {
+        key: "aiProvider",
+        group: "AI Link Enhancement (Beta)",
+        name: "AI Provider",
+        description:
+            "The API your AI server speaks: OpenAI-compatible (LM Studio, vLLM, gateways), Ollama's native API, or a llama.cpp server.",
+        control: "dropdown",
+        options: AI_PROVIDER_NAMES,
+        refreshesIndex: false,
+    },
     {
         key: "aiEndpoint",
         group: "AI Link Enhancement (Beta)",
         name: "AI API Endpoint",
         description:
-            "The URL of your OpenAI-compatible AI server (e.g. LM Studio, Ollama).",
+            "The URL of your AI server. OpenAI-compatible servers include the API version (e.g. http://localhost:1234/v1); Ollama and llama.cpp use the server root (e.g. http://localhost:11434).",
         control: "text",
         placeholder: "http://localhost:1234/v1",
         refreshesIndex: false,
@@ -339,6 +631,27 @@ export const SETTINGS_CATALOG = [
         placeholder: "gemma-4-7b",
         refreshesIndex: false,
     },
+    {
+        key: "aiApiKey",
+        group: "AI Link Enhancement (Beta)",
+        name: "AI API Key",
+        description:
+            "Sent as a Bearer token in the Authorization header. Leave empty for servers without authentication.",
+        control: "text",
+        secret: true,
+        refreshesIndex: false,
+    },
+    {
+        key: "aiExtraHeaders",
+        group: "AI Link Enhancement (Beta)",
+        name: "AI Extra Headers",
+        description:
+            "JSON object of additional HTTP headers sent with every AI request (e.g. {\"X-Team\": \"docs\"}).",
+        control: "json",
+        placeholder: "{}",
+        rows: 8,
+        refreshesIndex: false,
+    },
     {
         key: "aiMaxContext",
         group: "AI Link Enhancement (Beta)",
@@ -349,6 +662,26 @@ export const SETTINGS_CATALOG = [
         placeholder: "500",
         refreshesIndex: false,
     },
+    {
+        key: "aiMaxRetries",
+        group: "AI Link Enhancement (Beta)",
+        name: "Max Retries",
+        description:
+            "How many times to ask the AI again when its reply is not valid JSON or picks a path that was not offered. Valid items of a reply are always kept.",
+        control: "text",
+        placeholder: "2",
+        refreshesIndex: false,
+    },
+    {
+        key: "aiBatchMaxChars",
+        group: "AI Link Enhancement (Beta)",
+        name: "Batch Size (characters)",
+        description:
+            "Maximum size of the ambiguous links sent to the AI in one request, in characters (roughly 4 per token). Lower it for models with small context windows.",
+        control: "text",
+        placeholder: "4000",
+        refreshesIndex: false,
+    },
 ] as const satisfies readonly SettingCatalogEntry[]
 
 export const settingRefreshesIndex = (
@@ -368,6 +701,12 @@ export const projectReplaceLinksSettings = (
     removeAliasInDirs: settings.removeAliasInDirs,
     ignoreHeadings: settings.ignoreHeadings,
     ignoreMarkdownTables: settings.ignoreMarkdownTables,
+    ignoreTerms: settings.ignoreTerms,
+    linkFirstOccurrenceOnly: settings.linkFirstOccurrenceOnly,
+    linkFirstOccurrencePerSection: settings.linkFirstOccurrencePerSection,
+    minCandidateLength: settings.minCandidateLength,
+    minCjkCandidateLength: settings.minCjkCandidateLength,
+    stopWordLanguages: settings.stopWordLanguages,
 })
 
 export const projectUrlFormattingSettings = (
@@ -378,11 +717,21 @@ export const projectUrlFormattingSettings = (
     | "githubEnterpriseURLs"
     | "formatJiraURLs"
     | "jiraURLs"
+    | "preserveJiraCommentAnchor"
     | "formatLinearURLs"
+    | "formatGitLabURLs"
+    | "gitlabURLs"
+    | "urlFormatterRules"
+    | "trackerLinkTemplates"
 > => ({
     formatGitHubURLs: settings.formatGitHubURLs,
     githubEnterpriseURLs: settings.githubEnterpriseURLs,
     formatJiraURLs: settings.formatJiraURLs,
     jiraURLs: settings.jiraURLs,
+    preserveJiraCommentAnchor: settings.preserveJiraCommentAnchor,
     formatLinearURLs: settings.formatLinearURLs,
+    formatGitLabURLs: settings.formatGitLabURLs,
+    gitlabURLs: settings.gitlabURLs,
+    urlFormatterRules: settings.urlFormatterRules,
+    trackerLinkTemplates: settings.trackerLinkTemplates,
 })
@@ -0,0 +1,269 @@
+import {
+    AutomaticLinkerSettings,
+    DEFAULT_SETTINGS,
+    FolderSettingsProfile,
+    SETTINGS_CATALOG,
+} from "./settings-catalog"
+import { JSON_SETTING_VALIDATORS } from "./settings-validators"
+import { isRegexTerm } from "../replace-links/ignore-terms"
+
+type SettingKey = keyof AutomaticLinkerSettings
+
+// Per-note linking and formatting settings. Everything else (AI, credentials, network
+// access, integrations, and settings that affect the link index) can only be set globally,
+// so a note synced into the vault cannot redirect requests or change plugin behaviour.
+const OVERRIDABLE_KEYS: ReadonlySet<string> = new Set<SettingKey>([
+    "proximityBasedLinking",
+    "ignoreHeadings",
+    "ignoreMarkdownTables",
+    "linkFirstOccurrenceOnly",
+    "linkFirstOccurrencePerSection",
+    "matchSentenceCase",
+    "preventSelfLinking",
+    "removeAliasInDirs",
+    "ignoreTerms",
+    "minCandidateLength",
+    "minCjkCandidateLength",
+    "stopWordLanguages",
+    "formatGitHubURLs",
+    "githubEnterpriseURLs",
+    "formatJiraURLs",
+    "jiraURLs",
+    "preserveJiraCommentAnchor",
+    "formatLinearURLs",
+    "formatGitLabURLs",
+    "gitlabURLs",
+    "urlFormatterRules",
+    "trackerLinkTemplates",
+])
+
+// Settings whose values can hold regular expressions. A note cannot set them, so that a
+// note synced into the vault cannot run arbitrary patterns on every save.
+const holdsRegex = (key: SettingKey, value: unknown): boolean =>
+    key === "urlFormatterRules"
+    || (key === "ignoreTerms" && Array.isArray(value)
+        && value.some(term => typeof term === "string" && isRegexTerm(term)))
+
+// Settings read while the link index is built, once with the global value
+const LINK_INDEX_KEYS: ReadonlySet<string> = new Set<SettingKey>([
+    "respectNewFileFolderPath",
+    "includeAliases",
+    "ignoreCase",
+    "excludeDirsFromAutoLinking",
+])
+
+export interface SettingOverridesResult {
+    overrides: Partial<AutomaticLinkerSettings>
+    errors: string[]
+}
+
+export interface SettingOverridesOptions {
+    // False for note frontmatter, which cannot set regular expressions
+    allowRegex?: boolean
+}
+
+const isCatalogKey = (key: string): key is SettingKey =>
+    SETTINGS_CATALOG.some(entry => entry.key === key)
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value)
+
+const normalizeFolder = (folder: string): string =>
+    folder.trim().replace(/^\/+|\/+$/g, "")
+
+const describeValueType = (value: unknown): string => {
+    if (Array.isArray(value)) return "list"
+    if (value === null) return "null"
+    return typeof value
+}
+
+const hasDefaultType = (key: SettingKey, value: unknown): boolean => {
+    const defaultValue = DEFAULT_SETTINGS[key]
+    if (Array.isArray(defaultValue)) {
+        return Array.isArray(value) && value.every(item => typeof item === "string")
+    }
+    if (typeof defaultValue === "number") {
+        return typeof value === "number" && Number.isFinite(value)
+    }
+    return typeof value === typeof defaultValue
+}
+
+const getSettingValueErrors = (key: SettingKey, value: unknown, source: string): string[] => {
+    // Lists of rules and other JSON settings are checked the same way as in the settings tab
+    const validateJson = JSON_SETTING_VALIDATORS[key]
+    if (validateJson !== undefined) {
+        return validateJson(value).map(error => `${source}: "${key}": ${error}`)
+    }
+    if (!hasDefaultType(key, value)) {
+        const expected = describeValueType(DEFAULT_SETTINGS[key])
+        return [`${source}: "${key}" must be a ${expected}, got ${describeValueType(value)}`]
+    }
+    return []
+}
+
+/**
+ * Keeps the overrides of per-note linking and formatting settings whose values have
+ * the same type as the defaults or pass the JSON setting validators, and describes
+ * every rejected entry.
+ */
+export const validateSettingOverrides = (
+    value: unknown,
+    source: string,
+    { allowRegex = true }: SettingOverridesOptions = {},
+): SettingOverridesResult => {
+    const overrides: Partial<AutomaticLinkerSettings> = {}
+    const errors: string[] = []
+
+    if (!isPlainObject(value)) {
+        errors.push(`${source}: expected an object of settings, got ${describeValueType(value)}`)
+        return { overrides, errors }
+    }
+
+    for (const [key, entryValue] of Object.entries(value)) {
+        if (!isCatalogKey(key)) {
+            errors.push(`${source}: unknown setting "${key}"`)
+            continue
+        }
+        // A different value here would match against an index that does not reflect it
+        if (LINK_INDEX_KEYS.has(key)) {
+            errors.push(`${source}: "${key}" affects the link index and can only be set globally`)
+            continue
+        }
+        if (!OVERRIDABLE_KEYS.has(key)) {
+            errors.push(`${source}: "${key}" can only be set globally`)
+            continue
+        }
+        if (!allowRegex && holdsRegex(key, entryValue)) {
+            errors.push(`${source}: "${key}" with regular expressions can only be set globally or in folder profiles`)
+            continue
+        }
+        const valueErrors = getSettingValueErrors(key, entryValue, source)
+        if (valueErrors.length > 0) {
+            errors.push(...valueErrors)
+            continue
+        }
+        Object.assign(overrides, { [key]: entryValue })
+    }
+
+    return { overrides, errors }
+}
+
+/**
+ * Validates the raw value of the "folderProfiles" setting.
+ * Returns an empty list when every profile is usable.
+ */
+export const validateFolderProfiles = (value: unknown): string[] => {
+    if (!Array.isArray(value)) {
+        return [`Folder profiles must be a list, got ${describeValueType(value)}`]
+    }
+
+    const errors: string[] = []
+    value.forEach((profile: unknown, index) => {
+        const source = `Profile ${index + 1}`
+        if (!isPlainObject(profile)) {
+            errors.push(`${source}: expected an object, got ${describeValueType(profile)}`)
+            return
+        }
+        if (typeof profile.folder !== "string" || normalizeFolder(profile.folder) === "") {
+            errors.push(`${source}: "folder" must be a non-empty string`)
+        }
+        if (profile.off !== undefined && typeof profile.off !== "boolean") {
+            errors.push(`${source}: "off" must be a boolean`)
+        }
+        if (profile.settings !== undefined) {
+            errors.push(...validateSettingOverrides(profile.settings, source).errors)
+        }
+        for (const key of Object.keys(profile)) {
+            if (!["folder", "off", "settings"].includes(key)) {
+                errors.push(`${source}: unknown property "${key}"`)
+            }
+        }
+    })
+    return errors
+}
+
+const escapeRegExp = (text: string): string =>
+    text.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+
+const globToRegExp = (pattern: string): RegExp => {
+    let source = ""
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i]
+        if (char === "*" && pattern[i + 1] === "*") {
+            if (pattern[i + 2] === "/") {
+                source += "(?:.*/)?"
+                i += 2
+            }
+            else {
+                source += ".*"
+                i += 1
+            }
+        }
+        else if (char === "*") {
+            source += "[^/]*"
+        }
+        else if (char === "?") {
+            source += "[^/]"
+        }
+        else {
+            source += escapeRegExp(char)
+        }
+    }
+    // A matched folder also covers everything below it
+    return new RegExp(`^${source}(?:/.*)?$`)
+}
+
+/**
+ * Checks whether a note path lies in the folder of a profile.
+ * Plain folders match by path prefix; folders containing "*" or "?" are globs.
+ */
+export const matchesProfileFolder = (filePath: string, folder: string): boolean => {
+    const pattern = normalizeFolder(folder)
+    if (pattern === "") return false
+
+    if (/[*?]/.test(pattern)) {
+        return globToRegExp(pattern).test(filePath)
+    }
+    return filePath === pattern || filePath.startsWith(`${pattern}/`)
+}
+
+const getMatchingProfiles = (
+    profiles: readonly FolderSettingsProfile[] | undefined,
+    filePath: string,
+): FolderSettingsProfile[] =>
+    (profiles ?? []).filter(profile =>
+        typeof profile?.folder === "string" && matchesProfileFolder(filePath, profile.folder),
+    )
+
+/**
+ * Merges the settings of every matching folder profile over the global settings.
+ * Profiles are applied in order, so later profiles win.
+ */
+export const resolveFolderSettings = (
+    settings: AutomaticLinkerSettings,
+    filePath: string,
+): AutomaticLinkerSettings => {
+    const matchingProfiles = getMatchingProfiles(settings.folderProfiles, filePath)
+    if (matchingProfiles.length === 0) {
+        return settings
+    }
+
+    return matchingProfiles.reduce<AutomaticLinkerSettings>(
+        (resolved, profile) => profile.settings === undefined
+            ? resolved
+            : { ...resolved, ...validateSettingOverrides(profile.settings, profile.folder).overrides },
+        { ...settings },
+    )
+}
+
+/**
+ * Check if the last matching folder profile that sets "off" turns formatting off
+ */
+export const isFolderProfileOff = (
+    settings: AutomaticLinkerSettings,
+    filePath: string,
+): boolean => {
+    const profiles = getMatchingProfiles(settings.folderProfiles, filePath)
+        .filter(profile => typeof profile.off === "boolean")
+    return profiles[profiles.length - 1]?.off ?? false
+}
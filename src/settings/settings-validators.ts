@@ -0,0 +1,16 @@
+import { AutomaticLinkerSettings } from "./settings-catalog"
+import { validateTitleCleanupRules } from "../replace-url-with-title/utils/title-cleanup"
+import { validateTrackerLinkTemplates } from "../replace-urls/link-template"
+import { validateUrlFormatterRules } from "../replace-urls/user-rules"
+import { validateAIExtraHeaders } from "../utils/ai-providers"
+
+/**
+ * Validators for settings whose values are JSON lists or objects; each returns the list of problems.
+ * Folder profiles are validated in settings-profiles, which checks the settings they override with these.
+ */
+export const JSON_SETTING_VALIDATORS: Partial<Record<keyof AutomaticLinkerSettings, (value: unknown) => string[]>> = {
+    urlFormatterRules: validateUrlFormatterRules,
+    trackerLinkTemplates: validateTrackerLinkTemplates,
+    urlTitleCleanupRules: validateTitleCleanupRules,
+    aiExtraHeaders: validateAIExtraHeaders,
+}
@@ -1,4 +1,4 @@
-import { App, PluginSettingTab, Setting } from "obsidian"
+import { App, Notice, PluginSettingTab, Setting } from "obsidian"
 import AutomaticLinkerPlugin from "../main"
 import {
     AutomaticLinkerSettings,
@@ -6,6 +6,15 @@ import {
     SettingCatalogEntry,
     settingRefreshesIndex,
 } from "./settings-catalog"
+import { createAIProvider } from "../utils/ai-providers"
+import { validateFolderProfiles } from "./settings-profiles"
+import { JSON_SETTING_VALIDATORS } from "./settings-validators"
+
+// Validators for settings edited as JSON; each returns the list of problems
+const SETTINGS_TAB_JSON_VALIDATORS: Partial<Record<keyof AutomaticLinkerSettings, (value: unknown) => string[]>> = {
+    ...JSON_SETTING_VALIDATORS,
+    folderProfiles: validateFolderProfiles,
+}
 
 export class AutomaticLinkerPluginSettingsTab extends PluginSettingTab {
     plugin: AutomaticLinkerPlugin
@@ -41,16 +50,48 @@ export class AutomaticLinkerPluginSettingsTab extends PluginSettingTab {
         if (isNaN(parsedValue)) {
             return null
         }
-        if (key === "formatDelayMs" && parsedValue < 0) {
+        if (
+            (
+                key === "formatDelayMs"
+                || key === "minCandidateLength"
+                || key === "minCjkCandidateLength"
+                || key === "urlTitleCacheTtlDays"
+                || key === "urlTitleRetryMinutes"
+                || key === "urlTitleFetchTimeoutMs"
+                || key === "urlTitleFetchBudgetMs"
+                || key === "aiMaxRetries"
+            )
+            && parsedValue < 0
+        ) {
             return null
         }
-        if (key === "aiMaxContext" && parsedValue <= 0) {
+        if (
+            (key === "aiMaxContext" || key === "aiBatchMaxChars" || key === "urlTitleFetchConcurrency")
+            && parsedValue <= 0
+        ) {
             return null
         }
 
         return parsedValue as AutomaticLinkerSettings[K]
     }
 
+    private parseJsonValue(
+        key: keyof AutomaticLinkerSettings,
+        nextValue: string,
+    ): { value?: unknown, errors: string[] } {
+        let value: unknown
+        try {
+            const emptyValue = Array.isArray(this.plugin.settings[key]) ? "[]" : "{}"
+            value = JSON.parse(nextValue.trim() === "" ? emptyValue : nextValue)
+        }
+        catch (error) {
+            return { errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] }
+        }
+
+        const errors = SETTINGS_TAB_JSON_VALIDATORS[key]?.(value) ?? []
+        return errors.length > 0 ? { errors } : { value, errors }
+    }
+
     private renderSetting(containerEl: HTMLElement, entry: SettingCatalogEntry) {
         const setting = new Setting(containerEl)
             .setName(entry.name)
@@ -68,8 +109,23 @@ export class AutomaticLinkerPluginSettingsTab extends PluginSettingTab {
             return
         }
 
+        if (entry.control === "dropdown") {
+            setting.addDropdown((dropdown) => {
+                dropdown
+                    .addOptions(entry.options ?? {})
+                    .setValue(String(value))
+                    .onChange(async (nextValue) => {
+                        await this.setSettingValue(entry.key, nextValue as never)
+                    })
+            })
+            return
+        }
+
         if (entry.control === "text") {
             setting.addText((text) => {
+                if (entry.secret) {
+                    text.inputEl.type = "password"
+                }
                 text.setPlaceholder(entry.placeholder ?? "")
                     .setValue(String(value))
                     .onChange(async (nextValue) => {
@@ -87,17 +143,44 @@ export class AutomaticLinkerPluginSettingsTab extends PluginSettingTab {
             return
         }
 
+        if (entry.control === "json") {
+            const errorEl = setting.descEl.createDiv({ cls: "automatic-linker-setting-errors" })
+            setting.addTextArea((text) => {
+                text.setPlaceholder(entry.placeholder ?? "")
+                    .setValue(JSON.stringify(value, null, 2))
+                    .onChange(async (nextValue) => {
+                        const parsed = this.parseJsonValue(entry.key, nextValue)
+                        errorEl.empty()
+                        for (const error of parsed.errors) {
+                            errorEl.createDiv({ text: error })
+                        }
+                        if (parsed.errors.length > 0) {
+                            return
+                        }
+                        await this.setSettingValue(entry.key, parsed.value as never)
+                    })
+                if (entry.rows !== undefined) {
+                    text.inputEl.rows = entry.rows
+                }
+                if (entry.cols !== undefined) {
+                    text.inputEl.cols = entry.cols
+                }
+            })
+            return
+        }
+
         setting.addTextArea((text) => {
             text.setPlaceholder(entry.placeholder ?? "")
                 .setValue(Array.isArray(value) ? value.join("\n") : String(value))
                 .onChange(async (nextValue) => {
-                    await this.setSettingValue(
-                        entry.key,
-                        nextValue
-                            .split("\n")
-                            .map(item => item.trim())
-                            .filter(Boolean) as never,
-                    )
+                    // Text settings keep what was written; list settings take one item per line
+                    const parsedValue = typeof value === "string"
+                        ? nextValue
+                        : nextValue
+                                .split("\n")
+                                .map(item => item.trim())
+                                .filter(Boolean)
+                    await this.setSettingValue(entry.key, parsedValue as never)
                 })
             if (entry.rows !== undefined) {
                 text.inputEl.rows = entry.rows
@@ -108,6 +191,40 @@ export class AutomaticLinkerPluginSettingsTab extends PluginSettingTab {
         })
     }
 
+    /**
+     * Adds a "Test connection" button that lists the models of the configured AI server.
+     */
+    private renderAIConnectionTest(containerEl: HTMLElement) {
+        const setting = new Setting(containerEl)
+            .setName("Test AI connection")
+            .setDesc("Connects to the AI server with the settings above and lists its models.")
+        const resultEl = setting.descEl.createDiv()
+
+        setting.addButton((button) => {
+            button.setButtonText("Test connection")
+                .onClick(async () => {
+                    button.setDisabled(true)
+                    resultEl.empty()
+                    try {
+                        const models = await createAIProvider(this.plugin.settings).listModels()
+                        const message = models.length > 0
+                            ? `Connected. Available models: ${models.join(", ")}`
+                            : "Connected, but the server lists no models."
+                        resultEl.createDiv({ cls: "automatic-linker-setting-result", text: message })
+                        new Notice(`Automatic Linker: ${message}`)
+                    }
+                    catch (error) {
+                        const message = `Connection failed: ${error instanceof Error ? error.message : String(error)}`
+                        resultEl.createDiv({ cls: "automatic-linker-setting-errors", text: message })
+                        new Notice(`Automatic Linker: ${message}`)
+                    }
+                    finally {
+                        button.setDisabled(false)
+                    }
+                })
+        })
+    }
+
     display(): void {
         const { containerEl } = this
         containerEl.empty()
@@ -119,6 +236,9 @@ export class AutomaticLinkerPluginSettingsTab extends PluginSettingTab {
                 renderedGroups.add(entry.group)
             }
             this.renderSetting(containerEl, entry)
+            if (entry.key === "aiExtraHeaders") {
+                this.renderAIConnectionTest(containerEl)
+            }
         }
     }
 }
@@ -42,21 +42,29 @@ export const getTopLevelDirectoryName = (
     return segments[0] || ""
 }
 
+export const insertIntoTrie = (
+    root: TrieNode,
+    word: string,
+    ignoreCase = false,
+): void => {
+    let node = root
+    const chars = ignoreCase ? word.toLowerCase() : word
+    for (const char of chars) {
+        let child = node.children.get(char)
+        if (!child) {
+            child = { children: new Map() }
+            node.children.set(char, child)
+        }
+        node = child
+    }
+    node.candidate = word // preserve the original case
+}
+
 export const buildTrie = (words: string[], ignoreCase = false): TrieNode => {
     const root: TrieNode = { children: new Map() }
 
     for (const word of words) {
-        let node = root
-        const chars = ignoreCase ? word.toLowerCase() : word
-        for (const char of chars) {
-            let child = node.children.get(char)
-            if (!child) {
-                child = { children: new Map() }
-                node.children.set(char, child)
-            }
-            node = child
-        }
-        node.candidate = word // preserve the original case
+        insertIntoTrie(root, word, ignoreCase)
     }
 
     return root
@@ -67,131 +75,314 @@ export interface CandidateItem {
     canonical: string
     scoped: boolean
     namespace: string
+    // Overrides the minimum match length settings for this candidate
+    minLength?: number
 }
 
 export interface CandidateData {
     candidates: CandidateItem[]
 }
 
-export const buildCandidateTrie = (
-    allFiles: PathAndAliases[],
+type CandidateEntry = {
+    key: string
+    item: CandidateItem
+}
+
+/**
+ * Returns the candidate strings registered for a file's path: the full path,
+ * the last segment (CJK or ignoreCase only) and the path relative to baseDir.
+ */
+const collectPathCandidateEntries = (
+    file: PathAndAliases,
     baseDir: string | undefined,
-    ignoreCase = false,
-) => {
-    // Filter out files with exclude: true
-    const linkableFiles = allFiles.filter(f => !f.exclude)
+    ignoreCase: boolean,
+): CandidateEntry[] => {
+    if (file.exclude) return []
 
-    // Process candidate strings from file paths.
-    type Candidate = {
-        full: string
-        short: string | null
-        scoped: boolean
-        // Effective namespace computed relative to baseDir.
-        namespace: string
+    const full = file.path
+    const item: CandidateItem = {
+        canonical: full,
+        scoped: file.scoped,
+        namespace: getTopLevelDirectoryName(full, baseDir),
+        ...(file.minLength !== undefined ? { minLength: file.minLength } : {}),
     }
+    const entries: CandidateEntry[] = [{ key: full, item }]
+
+    // For paths with a slash, register the last segment
+    const lastSlashIndex = full.lastIndexOf("/")
+    if (lastSlashIndex !== -1) {
+        const lastSegment = full.slice(lastSlashIndex + 1)
+        // For CJK paths or when ignoreCase is enabled
+        if (
+            ignoreCase
+            || /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+$/u.test(
+                lastSegment,
+            )
+        ) {
+            entries.push({ key: lastSegment, item })
+            if (ignoreCase) {
+                entries.push({ key: lastSegment.toLowerCase(), item })
+            }
+        }
+    }
+
+    // Register the short path if available
     const basePrefix = baseDir ? `${baseDir}/` : null
-    const basePrefixLength = basePrefix?.length || 0
-
-    const candidates: Candidate[] = linkableFiles.map((f) => {
-        const candidate: Candidate = {
-            full: f.path,
-            short: null,
-            scoped: f.scoped,
-            namespace: getTopLevelDirectoryName(f.path, baseDir),
+    if (basePrefix && full.startsWith(basePrefix)) {
+        entries.push({ key: full.slice(basePrefix.length), item })
+    }
+
+    return entries
+}
+
+/**
+ * Returns the candidate strings registered for a file's frontmatter aliases.
+ */
+const collectAliasCandidateEntries = (
+    file: PathAndAliases,
+    baseDir: string | undefined,
+    ignoreCase: boolean,
+): CandidateEntry[] => {
+    if (file.exclude || !file.aliases) return []
+
+    // Determine shorthand candidate for the file if available.
+    const basePrefix = baseDir ? `${baseDir}/` : null
+    const short = basePrefix && file.path.startsWith(basePrefix)
+        ? file.path.slice(basePrefix.length)
+        : null
+
+    const entries: CandidateEntry[] = []
+    for (const alias of file.aliases) {
+        // If alias equals the shorthand, use alias as canonical; otherwise use "full|alias".
+        const canonicalForAlias
+            = short && alias === short ? alias : `${file.path}|${alias}`
+        const item: CandidateItem = {
+            canonical: canonicalForAlias,
+            scoped: file.scoped,
+            namespace: getTopLevelDirectoryName(file.path, baseDir),
+            ...(file.minLength !== undefined ? { minLength: file.minLength } : {}),
         }
-        if (basePrefix && f.path.startsWith(basePrefix)) {
-            candidate.short = f.path.slice(basePrefixLength)
+        entries.push({ key: alias, item })
+        // Register lowercase version when ignoreCase is enabled
+        if (ignoreCase) {
+            entries.push({ key: alias.toLowerCase(), item })
         }
-        return candidate
-    })
+    }
+    return entries
+}
+
+/**
+ * Adds an item to the candidate list of a key, ignoring duplicate canonicals.
+ * Returns true when the key did not exist in the map before.
+ */
+const registerCandidate = (
+    candidateMap: Map<string, CandidateData>,
+    { key, item }: CandidateEntry,
+    insertAt?: (candidates: CandidateItem[]) => number,
+): boolean => {
+    const existing = candidateMap.get(key)
+    if (!existing) {
+        candidateMap.set(key, { candidates: [item] })
+        return true
+    }
+
+    // Check if this canonical path is already added to avoid duplicates
+    if (!existing.candidates.some(c => c.canonical === item.canonical)) {
+        const index = insertAt ? insertAt(existing.candidates) : existing.candidates.length
+        existing.candidates.splice(index, 0, item)
+    }
+    return false
+}
 
+export const buildCandidateTrie = (
+    allFiles: PathAndAliases[],
+    baseDir: string | undefined,
+    ignoreCase = false,
+) => {
     // Build a mapping from candidate string to its CandidateData.
     const candidateMap = new Map<string, CandidateData>()
 
-    const addCandidate = (key: string, item: CandidateItem) => {
-        const existing = candidateMap.get(key)
-        if (existing) {
-            // Check if this canonical path is already added to avoid duplicates
-            if (!existing.candidates.some(c => c.canonical === item.canonical)) {
-                existing.candidates.push(item)
-            }
+    // Register normal candidates first, then alias candidates, so that file
+    // paths take precedence over aliases sharing the same key.
+    for (const file of allFiles) {
+        for (const entry of collectPathCandidateEntries(file, baseDir, ignoreCase)) {
+            registerCandidate(candidateMap, entry)
         }
-        else {
-            candidateMap.set(key, { candidates: [item] })
+    }
+    for (const file of allFiles) {
+        for (const entry of collectAliasCandidateEntries(file, baseDir, ignoreCase)) {
+            registerCandidate(candidateMap, entry)
         }
     }
 
-    // Register normal candidates.
-    for (const { full, short, scoped, namespace } of candidates) {
-        // Register the full path
-        addCandidate(full, {
-            canonical: full,
-            scoped,
-            namespace,
-        })
+    // Build a trie from all candidate strings
+    const words = Array.from(candidateMap.keys())
+    const trie = buildTrie(words, ignoreCase)
 
-        // For paths with a slash, register the last segment
-        const lastSlashIndex = full.lastIndexOf("/")
-        if (lastSlashIndex !== -1) {
-            const lastSegment = full.slice(lastSlashIndex + 1)
-            // For CJK paths or when ignoreCase is enabled
-            if (
-                ignoreCase
-                || /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+$/u.test(
-                    lastSegment,
-                )
-            ) {
-                const item = {
-                    canonical: full,
-                    scoped,
-                    namespace,
-                }
-                addCandidate(lastSegment, item)
-                if (ignoreCase) {
-                    addCandidate(lastSegment.toLowerCase(), item)
-                }
-            }
-        }
+    return { candidateMap, trie }
+}
+
+// Revision counters let caches derived from a candidate map (e.g. the
+// fallback index) notice in-place updates.
+const candidateMapRevisions = new WeakMap<Map<string, CandidateData>, number>()
+
+export const getCandidateMapRevision = (
+    candidateMap: Map<string, CandidateData>,
+): number => candidateMapRevisions.get(candidateMap) ?? 0
+
+const markCandidateMapChanged = (candidateMap: Map<string, CandidateData>) => {
+    candidateMapRevisions.set(candidateMap, getCandidateMapRevision(candidateMap) + 1)
+}
 
-        // Register the short path if available
-        if (short) {
-            addCandidate(short, {
-                canonical: full,
-                scoped,
-                namespace,
-            })
+/**
+ * Removes a word from the trie and prunes branches left without candidates.
+ * When another word still maps to the same node (only possible with ignoreCase),
+ * pass it as `replacement` to keep the node reachable.
+ */
+export const removeFromTrie = (
+    root: TrieNode,
+    word: string,
+    ignoreCase = false,
+    replacement?: string,
+): void => {
+    const path: Array<[TrieNode, string]> = []
+    let node = root
+    const chars = ignoreCase ? word.toLowerCase() : word
+    for (const char of chars) {
+        const child = node.children.get(char)
+        if (!child) return
+        path.push([node, char])
+        node = child
+    }
+
+    if (node.candidate !== word) return
+    if (replacement !== undefined) {
+        node.candidate = replacement
+        return
+    }
+    delete node.candidate
+
+    for (let index = path.length - 1; index >= 0; index--) {
+        const [parent, char] = path[index]
+        const child = parent.children.get(char)
+        if (!child || child.candidate !== undefined || child.children.size > 0) {
+            break
         }
+        parent.children.delete(char)
     }
+}
 
-    // Register alias candidates.
-    for (const file of linkableFiles) {
-        if (file.aliases) {
-            // Determine shorthand candidate for the file if available.
-            let short: string | null = null
-            if (basePrefix && file.path.startsWith(basePrefix)) {
-                short = file.path.slice(basePrefixLength)
-            }
-            for (const alias of file.aliases) {
-                // If alias equals the shorthand, use alias as canonical; otherwise use "full|alias".
-                const canonicalForAlias
-                    = short && alias === short ? alias : `${file.path}|${alias}`
-                const item = {
-                    canonical: canonicalForAlias,
-                    scoped: file.scoped,
-                    namespace: getTopLevelDirectoryName(file.path, baseDir),
-                }
-                addCandidate(alias, item)
-                // Register lowercase version when ignoreCase is enabled
-                if (ignoreCase) {
-                    addCandidate(alias.toLowerCase(), item)
-                }
-            }
+const findTrieReplacement = (
+    candidateMap: Map<string, CandidateData>,
+    removedKey: string,
+    ignoreCase: boolean,
+): string | undefined => {
+    if (!ignoreCase) return undefined
+
+    const lowerKey = removedKey.toLowerCase()
+    if (candidateMap.has(lowerKey)) return lowerKey
+    for (const key of candidateMap.keys()) {
+        if (key.toLowerCase() === lowerKey) return key
+    }
+    return undefined
+}
+
+const getCandidateLinkPath = (item: CandidateItem): string =>
+    item.canonical.split("|")[0]
+
+// Keeps the order produced by buildCandidateTrie: path candidates before alias
+// candidates, longer paths first.
+const findCandidateInsertIndex = (item: CandidateItem) => {
+    const rank = (candidate: CandidateItem): [number, number] => [
+        candidate.canonical.includes("|") ? 1 : 0,
+        -getCandidateLinkPath(candidate).length,
+    ]
+    const [itemKind, itemLength] = rank(item)
+
+    return (candidates: CandidateItem[]): number => {
+        const index = candidates.findIndex((candidate) => {
+            const [kind, length] = rank(candidate)
+            return kind > itemKind || (kind === itemKind && length > itemLength)
+        })
+        return index === -1 ? candidates.length : index
+    }
+}
+
+/**
+ * Registers a single file in an existing candidate map and trie.
+ */
+export const addFileToCandidateTrie = (
+    trie: TrieNode,
+    candidateMap: Map<string, CandidateData>,
+    file: PathAndAliases,
+    baseDir: string | undefined,
+    ignoreCase = false,
+): void => {
+    const entries = [
+        ...collectPathCandidateEntries(file, baseDir, ignoreCase),
+        ...collectAliasCandidateEntries(file, baseDir, ignoreCase),
+    ]
+    for (const entry of entries) {
+        const isNewKey = registerCandidate(
+            candidateMap,
+            entry,
+            findCandidateInsertIndex(entry.item),
+        )
+        if (isNewKey) {
+            insertIntoTrie(trie, entry.key, ignoreCase)
         }
     }
+    if (entries.length > 0) {
+        markCandidateMapChanged(candidateMap)
+    }
+}
 
-    // Build a trie from all candidate strings
-    const words = Array.from(candidateMap.keys())
-    const trie = buildTrie(words, ignoreCase)
+/**
+ * Removes a single file from an existing candidate map and trie.
+ * `file` must describe the file as it was registered (same path, aliases and flags).
+ */
+export const removeFileFromCandidateTrie = (
+    trie: TrieNode,
+    candidateMap: Map<string, CandidateData>,
+    file: PathAndAliases,
+    baseDir: string | undefined,
+    ignoreCase = false,
+): void => {
+    const entries = [
+        ...collectPathCandidateEntries(file, baseDir, ignoreCase),
+        ...collectAliasCandidateEntries(file, baseDir, ignoreCase),
+    ]
+    for (const { key, item } of entries) {
+        const data = candidateMap.get(key)
+        if (!data) continue
 
-    return { candidateMap, trie }
+        data.candidates = data.candidates.filter(c => c.canonical !== item.canonical)
+        if (data.candidates.length === 0) {
+            candidateMap.delete(key)
+            removeFromTrie(
+                trie,
+                key,
+                ignoreCase,
+                findTrieReplacement(candidateMap, key, ignoreCase),
+            )
+        }
+    }
+    if (entries.length > 0) {
+        markCandidateMapChanged(candidateMap)
+    }
+}
+
+/**
+ * Moves a file's candidates from its previous registration to its new one.
+ */
+export const renameFileInCandidateTrie = (
+    trie: TrieNode,
+    candidateMap: Map<string, CandidateData>,
+    oldFile: PathAndAliases,
+    newFile: PathAndAliases,
+    baseDir: string | undefined,
+    ignoreCase = false,
+): void => {
+    removeFileFromCandidateTrie(trie, candidateMap, oldFile, baseDir, ignoreCase)
+    addFileToCandidateTrie(trie, candidateMap, newFile, baseDir, ignoreCase)
 }
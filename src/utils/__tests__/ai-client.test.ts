@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+vi.mock("../ai-providers", () => ({
+    createAIProvider: vi.fn(),
+}))
+
+import { DEFAULT_SETTINGS } from "../../settings/settings-info"
+import {
+    AIResolveRequest,
+    parseAIResolveReply,
+    resolveAmbiguitiesBatch,
+    splitAIResolveRequests,
+} from "../ai-client"
+import { AIChatMessage, createAIProvider } from "../ai-providers"
+
+const requests: AIResolveRequest[] = [
+    { id: 9, word: "meeting", text: "I have a meeting", candidates: ["work/meeting", "private/meeting"] },
+    { id: 30, word: "plan", text: "The plan", candidates: ["work/plan", "private/plan"] },
+]
+
+const mockReplies = (...replies: string[]) => {
+    const chat = vi.fn()
+    replies.forEach(reply => chat.mockResolvedValueOnce(reply))
+    vi.mocked(createAIProvider).mockReturnValue({
+        kind: "openai-compatible",
+        chat,
+        listModels: vi.fn(),
+    })
+    return chat
+}
+
+describe("parseAIResolveReply", () => {
+    it("accepts fenced JSON and null selections", () => {
+        const reply = parseAIResolveReply(
+            "```json\n{\"results\": [{\"id\": 9, \"selectedPath\": \"work/meeting\"}, {\"id\": 30, \"selectedPath\": null}]}\n```",
+            requests,
+        )
+
+        expect(reply.errors).toEqual([])
+        expect(reply.answers).toEqual(new Map([[9, "work/meeting"], [30, null]]))
+    })
+
+    it("finds the JSON object inside surrounding prose", () => {
+        const reply = parseAIResolveReply(
+            "Sure! {\"results\": [{\"id\": 9, \"selectedPath\": null}, {\"id\": 30, \"selectedPath\": null}]} Hope this helps.",
+            requests,
+        )
+
+        expect(reply.errors).toEqual([])
+        expect(reply.answers.size).toBe(2)
+    })
+
+    it("keeps valid items and reports invented paths, unknown ids, and missing results", () => {
+        const reply = parseAIResolveReply(JSON.stringify({
+            results: [
+                { id: 9, word: "meeting", selectedPath: "work/meeting" },
+                { id: 30, word: "plan", selectedPath: "notes/plan" },
+                { id: 50, word: "budget", selectedPath: "work/budget" },
+                { word: "meeting", selectedPath: "work/meeting" },
+            ],
+        }), requests)
+
+        expect(reply.answers).toEqual(new Map([[9, "work/meeting"]]))
+        expect(reply.errors).toEqual([
+            "Result 2: \"selectedPath\" for id 30 (\"plan\") must be one of its candidates or null",
+            "Result 3: 50 is not one of the requested ids",
+            "Result 4: expected an object with a numeric \"id\"",
+        ])
+
+        expect(parseAIResolveReply("{\"results\": []}", requests).errors).toEqual([
+            "Missing results for ids: 9, 30",
+        ])
+    })
+
+    it("reports replies that are not JSON or lack a results list", () => {
+        expect(parseAIResolveReply("I cannot help with that.", requests).errors[0])
+            .toMatch(/^The reply is not valid JSON/)
+        expect(parseAIResolveReply("{\"answers\": []}", requests).errors).toEqual([
+            "The reply must be an object with a \"results\" list",
+        ])
+    })
+})
+
+describe("splitAIResolveRequests", () => {
+    const requestChars = (request: AIResolveRequest) => JSON.stringify(request, null, 2).length
+
+    it("fills batches up to the character budget in order", () => {
+        const budget = requestChars(requests[0]) + requestChars(requests[1])
+
+        expect(splitAIResolveRequests(requests, budget)).toEqual([requests])
+        expect(splitAIResolveRequests(requests, budget - 1)).toEqual([[requests[0]], [requests[1]]])
+    })
+
+    it("gives oversized requests a batch of their own", () => {
+        expect(splitAIResolveRequests(requests, 1)).toEqual([[requests[0]], [requests[1]]])
+        expect(splitAIResolveRequests([], 1)).toEqual([])
+    })
+})
+
+describe("resolveAmbiguitiesBatch", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "warn").mockImplementation(() => {})
+    })
+
+    it("retries only the invalid items with a repair prompt", async () => {
+        const chat = mockReplies(
+            JSON.stringify({
+                results: [
+                    { id: 9, selectedPath: "work/meeting" },
+                    { id: 30, selectedPath: "notes/plan" },
+                ],
+            }),
+            JSON.stringify({ results: [{ id: 30, selectedPath: "private/plan" }] }),
+        )
+
+        const result = await resolveAmbiguitiesBatch(DEFAULT_SETTINGS, requests)
+
+        expect(result).toEqual(new Map([[9, "work/meeting"], [30, "private/plan"]]))
+        expect(chat).toHaveBeenCalledTimes(2)
+        const firstMessages = chat.mock.calls[0][0] as AIChatMessage[]
+        const repairMessages = chat.mock.calls[1][0] as AIChatMessage[]
+        expect(repairMessages.map(message => message.role)).toEqual(["system", "user", "assistant", "user"])
+        expect(repairMessages.slice(0, 2)).toEqual(firstMessages)
+        expect(repairMessages[2].content).toContain("\"notes/plan\"")
+        const repairPrompt = repairMessages[3].content
+        expect(repairPrompt).toContain("\"selectedPath\" for id 30 (\"plan\") must be one of its candidates or null")
+        expect(repairPrompt).toContain("\"word\": \"plan\"")
+        expect(repairPrompt).not.toContain("\"word\": \"meeting\"")
+    })
+
+    it("returns the valid items once the retries run out", async () => {
+        const chat = mockReplies(
+            "not json",
+            JSON.stringify({ results: [{ id: 9, selectedPath: "private/meeting" }] }),
+        )
+
+        const result = await resolveAmbiguitiesBatch({ ...DEFAULT_SETTINGS, aiMaxRetries: 1 }, requests)
+
+        expect(result).toEqual(new Map([[9, "private/meeting"]]))
+        expect(chat).toHaveBeenCalledTimes(2)
+    })
+
+    it("does not call the AI without requests", async () => {
+        const chat = mockReplies()
+
+        await expect(resolveAmbiguitiesBatch(DEFAULT_SETTINGS, [])).resolves.toEqual(new Map())
+        expect(chat).not.toHaveBeenCalled()
+    })
+})
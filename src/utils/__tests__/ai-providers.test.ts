@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+vi.mock("obsidian", () => ({
+    requestUrl: vi.fn(),
+}))
+
+import { requestUrl } from "obsidian"
+import {
+    AIProviderSettings,
+    createAIProvider,
+    validateAIExtraHeaders,
+} from "../ai-providers"
+
+const respondWith = (data: unknown, status = 200) => {
+    vi.mocked(requestUrl).mockResolvedValue({
+        status,
+        text: JSON.stringify(data),
+    } as never)
+}
+
+const lastRequest = () => {
+    const [request] = vi.mocked(requestUrl).mock.calls.at(-1) as [{
+        url: string
+        method: string
+        headers: Record<string, string>
+        body?: string
+    }]
+    return {
+        ...request,
+        body: request.body === undefined ? undefined : JSON.parse(request.body) as unknown,
+    }
+}
+
+const baseSettings: AIProviderSettings = {
+    aiProvider: "openai-compatible",
+    aiEndpoint: "http://localhost:1234/v1/",
+    aiModel: "gemma",
+    aiApiKey: "",
+    aiExtraHeaders: {},
+}
+
+const messages = [{ role: "user" as const, content: "Hello" }]
+
+describe("createAIProvider", () => {
+    beforeEach(() => {
+        vi.mocked(requestUrl).mockReset()
+    })
+
+    it("sends OpenAI-compatible chat requests with the API key and extra headers", async () => {
+        respondWith({ choices: [{ message: { content: "{\"results\": []}" } }] })
+        const provider = createAIProvider({
+            ...baseSettings,
+            aiApiKey: "secret",
+            aiExtraHeaders: { "X-Team": "docs" },
+        })
+
+        await expect(provider.chat(messages)).resolves.toBe("{\"results\": []}")
+        expect(lastRequest()).toEqual(expect.objectContaining({
+            url: "http://localhost:1234/v1/chat/completions",
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                "Authorization": "Bearer secret",
+                "X-Team": "docs",
+            },
+            body: { model: "gemma", messages, temperature: 0 },
+        }))
+    })
+
+    it("lists OpenAI-compatible models", async () => {
+        respondWith({ data: [{ id: "gemma" }, { id: "qwen" }] })
+
+        await expect(createAIProvider(baseSettings).listModels()).resolves.toEqual(["gemma", "qwen"])
+        expect(lastRequest()).toEqual(expect.objectContaining({
+            url: "http://localhost:1234/v1/models",
+            method: "GET",
+            headers: {},
+        }))
+    })
+
+    it("uses Ollama's native chat and tags APIs", async () => {
+        const provider = createAIProvider({
+            ...baseSettings,
+            aiProvider: "ollama",
+            aiEndpoint: "http://localhost:11434",
+        })
+
+        respondWith({ message: { role: "assistant", content: "reply" } })
+        await expect(provider.chat(messages)).resolves.toBe("reply")
+        expect(lastRequest()).toEqual(expect.objectContaining({
+            url: "http://localhost:11434/api/chat",
+            body: { model: "gemma", messages, stream: false, options: { temperature: 0 } },
+        }))
+
+        respondWith({ models: [{ name: "llama3:8b" }] })
+        await expect(provider.listModels()).resolves.toEqual(["llama3:8b"])
+        expect(lastRequest().url).toBe("http://localhost:11434/api/tags")
+    })
+
+    it("omits the model for llama.cpp servers when none is set", async () => {
+        const provider = createAIProvider({
+            ...baseSettings,
+            aiProvider: "llama-cpp",
+            aiEndpoint: "http://localhost:8080",
+            aiModel: "",
+        })
+
+        respondWith({ choices: [{ message: { content: "reply" } }] })
+        await expect(provider.chat(messages)).resolves.toBe("reply")
+        expect(lastRequest()).toEqual(expect.objectContaining({
+            url: "http://localhost:8080/v1/chat/completions",
+            body: { messages, temperature: 0 },
+        }))
+    })
+
+    it("reports HTTP errors and malformed replies", async () => {
+        const provider = createAIProvider(baseSettings)
+
+        respondWith({ error: "unauthorized" }, 401)
+        await expect(provider.listModels()).rejects.toThrow(
+            "OpenAI-compatible returned HTTP 401 for http://localhost:1234/v1/models",
+        )
+
+        respondWith({ choices: [] })
+        await expect(provider.chat(messages)).rejects.toThrow(
+            "OpenAI-compatible response has no message content",
+        )
+    })
+})
+
+describe("validateAIExtraHeaders", () => {
+    it("accepts header names mapped to strings", () => {
+        expect(validateAIExtraHeaders({ "X-Team": "docs", "cf-access-token": "abc" })).toEqual([])
+    })
+
+    it("reports non-objects, invalid names, and non-string values", () => {
+        expect(validateAIExtraHeaders(["X-Team"])).toEqual([
+            "Extra headers must be an object of header names to values",
+        ])
+        expect(validateAIExtraHeaders({ "Bad Header": "x", "X-Count": 1 })).toEqual([
+            "\"Bad Header\" is not a valid header name",
+            "\"X-Count\": value must be a string",
+        ])
+    })
+})
@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from "vitest"
+import { createJsonDataStore, JsonDataAdapter } from "../json-data-store"
+
+const createAdapter = (files: Record<string, string> = {}): JsonDataAdapter => ({
+    exists: vi.fn(async (path: string) => path in files),
+    read: vi.fn(async (path: string) => files[path]),
+    write: vi.fn(async (path: string, data: string) => {
+        files[path] = data
+    }),
+})
+
+describe("createJsonDataStore", () => {
+    it("returns the default value when the file does not exist", async () => {
+        const store = createJsonDataStore(createAdapter(), "data/store.json", () => ({ count: 0 }))
+
+        await expect(store.load()).resolves.toEqual({ count: 0 })
+    })
+
+    it("round-trips saved values", async () => {
+        const adapter = createAdapter()
+        const store = createJsonDataStore(adapter, "data/store.json", () => ({ count: 0 }))
+
+        await store.save({ count: 3 })
+
+        await expect(store.load()).resolves.toEqual({ count: 3 })
+    })
+
+    it("falls back to the default value for malformed files", async () => {
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+        const store = createJsonDataStore(
+            createAdapter({ "data/store.json": "{" }),
+            "data/store.json",
+            () => ({ count: 0 }),
+        )
+
+        await expect(store.load()).resolves.toEqual({ count: 0 })
+        warn.mockRestore()
+    })
+})
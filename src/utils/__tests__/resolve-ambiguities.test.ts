@@ -4,12 +4,13 @@ vi.mock("obsidian", () => ({
     request: vi.fn(),
 }))
 
-import { resolveAmbiguities } from "../resolve-ambiguities"
+import { hashAIResolveRequest, resolveAmbiguities } from "../resolve-ambiguities"
 import { CandidateData, TrieNode, buildTrie } from "../../trie"
 import { AutomaticLinkerSettings, DEFAULT_SETTINGS } from "../../settings/settings-info"
 import * as aiClient from "../ai-client"
 
-vi.mock("../ai-client", () => ({
+vi.mock("../ai-client", async importOriginal => ({
+    ...await importOriginal<typeof import("../ai-client")>(),
     callAI: vi.fn(),
     resolveAmbiguitiesBatch: vi.fn(),
 }))
@@ -37,7 +38,7 @@ describe("resolveAmbiguities", () => {
     it("should identify ambiguous unlinked words", async () => {
         const text = "I have a meeting tomorrow."
         vi.mocked(aiClient.resolveAmbiguitiesBatch).mockResolvedValue(
-            new Map([["meeting", "work/meeting"]]),
+            new Map([[9, "work/meeting"]]),
         )
 
         const result = await resolveAmbiguities(text, candidateMap, trie, mockSettings)
@@ -46,18 +47,19 @@ describe("resolveAmbiguities", () => {
             mockSettings,
             expect.arrayContaining([
                 expect.objectContaining({
+                    id: 9,
                     word: "meeting",
                     candidates: ["work/meeting", "private/meeting"],
                 }),
             ]),
         )
-        expect(result.get("meeting")).toBe("work/meeting")
+        expect(result.get(9)).toBe("work/meeting")
     })
 
     it("should identify ambiguous existing links for verification", async () => {
         const text = "Check the [[private/meeting|meeting]] notes."
         vi.mocked(aiClient.resolveAmbiguitiesBatch).mockResolvedValue(
-            new Map([["[[private/meeting|meeting]]", "work/meeting"]]),
+            new Map([[10, "work/meeting"]]),
         )
 
         const result = await resolveAmbiguities(text, candidateMap, trie, mockSettings)
@@ -66,12 +68,45 @@ describe("resolveAmbiguities", () => {
             mockSettings,
             expect.arrayContaining([
                 expect.objectContaining({
+                    id: 10,
                     word: "[[private/meeting|meeting]]",
                     candidates: ["work/meeting", "private/meeting"],
                 }),
             ]),
         )
-        expect(result.get("[[private/meeting|meeting]]")).toBe("work/meeting")
+        expect(result.get(10)).toBe("work/meeting")
+    })
+
+    it("ignores decisions for occurrences that were not requested", async () => {
+        const text = "I have a meeting tomorrow."
+        vi.mocked(aiClient.resolveAmbiguitiesBatch).mockResolvedValue(
+            new Map([[9, "work/meeting"], [42, "private/meeting"]]),
+        )
+        const onDecision = vi.fn()
+
+        const result = await resolveAmbiguities(text, candidateMap, trie, mockSettings, undefined, undefined, {
+            onDecision,
+        })
+
+        expect([...result]).toEqual([[9, "work/meeting"]])
+        expect(onDecision).toHaveBeenCalledTimes(1)
+        expect(onDecision).toHaveBeenCalledWith(expect.any(String), "work/meeting")
+    })
+
+    it("sends every occurrence of a word with its own context", async () => {
+        const text = "The meeting at work. The meeting with family."
+        vi.mocked(aiClient.resolveAmbiguitiesBatch).mockClear()
+        vi.mocked(aiClient.resolveAmbiguitiesBatch).mockResolvedValue(new Map())
+
+        await resolveAmbiguities(text, candidateMap, trie, { ...mockSettings, aiMaxContext: 8 })
+
+        expect(aiClient.resolveAmbiguitiesBatch).toHaveBeenCalledWith(
+            expect.anything(),
+            [
+                expect.objectContaining({ id: 4, word: "meeting", text: "The meeting at work" }),
+                expect.objectContaining({ id: 25, word: "meeting", text: "rk. The meeting with fa" }),
+            ],
+        )
     })
 
     it("should not request AI for existing links inside inline code", async () => {
@@ -81,10 +116,7 @@ describe("resolveAmbiguities", () => {
 
         const result = await resolveAmbiguities(text, candidateMap, trie, mockSettings)
 
-        expect(aiClient.resolveAmbiguitiesBatch).toHaveBeenCalledWith(
-            mockSettings,
-            [],
-        )
+        expect(aiClient.resolveAmbiguitiesBatch).not.toHaveBeenCalled()
         expect(result.size).toBe(0)
     })
 
@@ -100,7 +132,7 @@ meeting
 meeting`
         vi.mocked(aiClient.resolveAmbiguitiesBatch).mockClear()
         vi.mocked(aiClient.resolveAmbiguitiesBatch).mockResolvedValue(
-            new Map([["meeting", "work/meeting"]]),
+            new Map([[31, "work/meeting"]]),
         )
 
         await resolveAmbiguities(text, candidateMap, trie, {
@@ -147,10 +179,7 @@ meeting`
             mockSettings,
         )
 
-        expect(aiClient.resolveAmbiguitiesBatch).toHaveBeenCalledWith(
-            mockSettings,
-            [],
-        )
+        expect(aiClient.resolveAmbiguitiesBatch).not.toHaveBeenCalled()
         expect(result.size).toBe(0)
     })
 
@@ -181,12 +210,7 @@ meeting`
             "work/meeting",
         )
 
-        expect(aiClient.resolveAmbiguitiesBatch).toHaveBeenCalledWith(
-            expect.objectContaining({
-                preventSelfLinking: true,
-            }),
-            [],
-        )
+        expect(aiClient.resolveAmbiguitiesBatch).not.toHaveBeenCalled()
         expect(result.size).toBe(0)
     })
 
@@ -257,10 +281,7 @@ meeting`
             mockSettings,
         )
 
-        expect(aiClient.resolveAmbiguitiesBatch).toHaveBeenCalledWith(
-            mockSettings,
-            [],
-        )
+        expect(aiClient.resolveAmbiguitiesBatch).not.toHaveBeenCalled()
         expect(result.size).toBe(0)
     })
 
@@ -280,12 +301,86 @@ meeting`
             },
         )
 
-        expect(aiClient.resolveAmbiguitiesBatch).toHaveBeenCalledWith(
-            expect.objectContaining({
-                ignoreMarkdownTables: true,
-            }),
-            [],
-        )
+        expect(aiClient.resolveAmbiguitiesBatch).not.toHaveBeenCalled()
         expect(result.size).toBe(0)
     })
+    it("sends requests in batches within the character budget and reports progress", async () => {
+        const text = "meeting one. meeting two. meeting three."
+        vi.mocked(aiClient.resolveAmbiguitiesBatch).mockReset()
+        vi.mocked(aiClient.resolveAmbiguitiesBatch).mockImplementation(async (_settings, batch) =>
+            new Map(batch.map(request => [request.id, "work/meeting"])),
+        )
+        const onProgress = vi.fn()
+
+        const result = await resolveAmbiguities(
+            text,
+            candidateMap,
+            trie,
+            { ...mockSettings, aiMaxContext: 5, aiBatchMaxChars: 300 },
+            "",
+            undefined,
+            { onProgress },
+        )
+
+        const batches = vi.mocked(aiClient.resolveAmbiguitiesBatch).mock.calls.map(([, batch]) =>
+            batch.map(request => request.id),
+        )
+        expect(batches).toEqual([[0, 13], [26]])
+        expect(onProgress.mock.calls).toEqual([[0, 2], [1, 2], [2, 2]])
+        expect([...result.keys()]).toEqual([0, 13, 26])
+    })
+
+    it("stops after cancellation and keeps results of finished batches", async () => {
+        const controller = new AbortController()
+        vi.mocked(aiClient.resolveAmbiguitiesBatch).mockReset()
+        vi.mocked(aiClient.resolveAmbiguitiesBatch)
+            .mockImplementationOnce(async (_settings, batch) => {
+                return new Map(batch.map(request => [request.id, "work/meeting"]))
+            })
+            .mockImplementationOnce(async () => {
+                controller.abort()
+                // Never settles, like a request to a server that hangs
+                return new Promise<Map<number, string>>(() => {})
+            })
+
+        const result = await resolveAmbiguities(
+            "meeting one. meeting two. meeting three.",
+            candidateMap,
+            trie,
+            { ...mockSettings, aiMaxContext: 5, aiBatchMaxChars: 1 },
+            "",
+            undefined,
+            { signal: controller.signal },
+        )
+
+        expect(aiClient.resolveAmbiguitiesBatch).toHaveBeenCalledTimes(2)
+        expect(result).toEqual(new Map([[0, "work/meeting"]]))
+    })
+    it("reuses cached decisions and reports every decision of the run", async () => {
+        const text = "The meeting at work. The meeting with family."
+        const settings = { ...mockSettings, aiMaxContext: 8 }
+        const cachedKey = hashAIResolveRequest({
+            id: 4,
+            word: "meeting",
+            text: "The meeting at work",
+            candidates: ["work/meeting", "private/meeting"],
+        })
+        vi.mocked(aiClient.resolveAmbiguitiesBatch).mockReset()
+        vi.mocked(aiClient.resolveAmbiguitiesBatch).mockResolvedValue(new Map([[25, null]]))
+        const onDecision = vi.fn()
+
+        const result = await resolveAmbiguities(text, candidateMap, trie, settings, "", undefined, {
+            cachedDecisions: { [cachedKey]: "work/meeting" },
+            onDecision,
+        })
+
+        expect(aiClient.resolveAmbiguitiesBatch).toHaveBeenCalledWith(settings, [
+            expect.objectContaining({ id: 25 }),
+        ])
+        expect(result).toEqual(new Map([[4, "work/meeting"]]))
+        expect(onDecision.mock.calls).toEqual([
+            [cachedKey, "work/meeting"],
+            [expect.any(String), null],
+        ])
+    })
 })
@@ -1,7 +1,9 @@
-import { request } from "obsidian"
 import { AutomaticLinkerSettings } from "../settings/settings-info"
+import { AIChatMessage, createAIProvider } from "./ai-providers"
 
 export interface AIResolveRequest {
+    // Offset of the occurrence in the note, which identifies it in the reply
+    id: number
     text: string
     word: string
     candidates: string[]
@@ -11,48 +13,39 @@ export interface AIResolveResponse {
     selectedPath: string | null
 }
 
+/**
+ * Sends the prompt after the earlier messages of the conversation, if any.
+ */
 export const callAI = async (
     settings: AutomaticLinkerSettings,
     prompt: string,
+    history: AIChatMessage[] = [],
 ): Promise<string> => {
-    const url = `${settings.aiEndpoint}/chat/completions`
-    const body = {
-        model: settings.aiModel,
-        messages: [
-            {
-                role: "system",
-                content: "You are an assistant that helps resolve ambiguous links in Obsidian notes. You must respond ONLY with a valid JSON object. Do not include any explanation or markdown code blocks.",
-            },
-            {
-                role: "user",
-                content: prompt,
-            },
-        ],
-        // Some local servers fail with response_format, so we rely on the prompt instructions
-        // temperature: 0 to make it more deterministic
-        temperature: 0,
-    }
+    const provider = createAIProvider(settings)
+    const messages: AIChatMessage[] = [
+        {
+            role: "system",
+            content: "You are an assistant that helps resolve ambiguous links in Obsidian notes. You must respond ONLY with a valid JSON object. Do not include any explanation or markdown code blocks.",
+        },
+        ...history,
+        {
+            role: "user",
+            content: prompt,
+        },
+    ]
 
     if (settings.debug) {
-        console.log("AI Link Enhancer Request:", JSON.stringify(body, null, 2))
+        console.log(`AI Link Enhancer Request (${provider.kind}):`, JSON.stringify(messages, null, 2))
     }
 
     try {
-        const response = await request({
-            url,
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-            },
-            body: JSON.stringify(body),
-        })
+        const response = await provider.chat(messages)
 
         if (settings.debug) {
             console.log("AI Link Enhancer Response:", response)
         }
 
-        const data = JSON.parse(response)
-        return data.choices[0].message.content
+        return response
     }
     catch (error) {
         console.error("AI Link Enhancer API Error:", error)
@@ -60,44 +53,177 @@ export const callAI = async (
     }
 }
 
-export const resolveAmbiguitiesBatch = async (
-    settings: AutomaticLinkerSettings,
-    requests: AIResolveRequest[],
-): Promise<Map<string, string>> => {
-    if (requests.length === 0) return new Map()
-
-    const prompt = `
-Please resolve the following ambiguous links.
-Select the most appropriate "selectedPath" from the given "candidates" based on the context.
-If no candidate is appropriate, return null for that item.
+export interface AIResolveReply {
+    // Occurrence ids the reply resolved, mapped to the chosen path or null when no candidate fits
+    answers: Map<number, string | null>
+    // Problems found in the reply, used to ask the AI for a repair
+    errors: string[]
+}
 
-You MUST respond with a JSON object in the following format:
+const RESPONSE_FORMAT = `You MUST respond with a JSON object in the following format:
 {
   "results": [
-    { "word": "word1", "selectedPath": "path/to/note" },
+    { "id": 12, "word": "word1", "selectedPath": "path/to/note" },
     ...
   ]
+}`
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value)
+
+const parseReplyJson = (raw: string): unknown => {
+    // Clean up potential markdown code blocks if the AI included them
+    const cleanJson = raw.replace(/```json\n?/, "").replace(/\n?```/, "").trim()
+    try {
+        return JSON.parse(cleanJson)
+    }
+    catch (error) {
+        // Some models wrap the object in prose; fall back to the outermost braces
+        const start = cleanJson.indexOf("{")
+        const end = cleanJson.lastIndexOf("}")
+        if (start === -1 || end <= start) throw error
+        return JSON.parse(cleanJson.slice(start, end + 1))
+    }
+}
+
+/**
+ * Validates an AI reply against the requests it answers. Valid items are kept even
+ * when others are malformed, name unknown words, or pick paths that were not offered.
+ */
+export const parseAIResolveReply = (
+    raw: string,
+    requests: AIResolveRequest[],
+): AIResolveReply => {
+    const answers = new Map<number, string | null>()
+    let reply: unknown
+    try {
+        reply = parseReplyJson(raw)
+    }
+    catch (error) {
+        return { answers, errors: [`The reply is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] }
+    }
+    if (!isPlainObject(reply) || !Array.isArray(reply.results)) {
+        return { answers, errors: ["The reply must be an object with a \"results\" list"] }
+    }
+
+    const requestsById = new Map(requests.map(request => [request.id, request]))
+    const errors: string[] = []
+    reply.results.forEach((item: unknown, index) => {
+        const source = `Result ${index + 1}`
+        if (!isPlainObject(item) || typeof item.id !== "number") {
+            errors.push(`${source}: expected an object with a numeric "id"`)
+            return
+        }
+        const request = requestsById.get(item.id)
+        if (!request) {
+            errors.push(`${source}: ${item.id} is not one of the requested ids`)
+            return
+        }
+        if (item.selectedPath === null || item.selectedPath === undefined) {
+            answers.set(item.id, null)
+            return
+        }
+        if (typeof item.selectedPath !== "string" || !request.candidates.includes(item.selectedPath)) {
+            errors.push(`${source}: "selectedPath" for id ${item.id} ("${request.word}") must be one of its candidates or null`)
+            return
+        }
+        answers.set(item.id, item.selectedPath)
+    })
+
+    const missingIds = requests.filter(request => !answers.has(request.id)).map(request => request.id)
+    if (missingIds.length > 0 && errors.length === 0) {
+        errors.push(`Missing results for ids: ${missingIds.join(", ")}`)
+    }
+    return { answers, errors }
 }
 
+const buildResolvePrompt = (requests: AIResolveRequest[]): string => `
+Please resolve the following ambiguous links.
+Each item is one occurrence of a word; the same word can mean different things in different places.
+Select the most appropriate "selectedPath" from the given "candidates" based on the item's own context.
+If no candidate is appropriate, return null for that item.
+Answer every item with its "id".
+
+${RESPONSE_FORMAT}
+
 Input data:
 ${JSON.stringify(requests, null, 2)}
 `
 
-    const resultRaw = await callAI(settings, prompt)
+const buildRepairPrompt = (requests: AIResolveRequest[], errors: string[]): string => `
+Your previous reply could not be used:
+${errors.map(error => `- ${error}`).join("\n")}
 
-    // Clean up potential markdown code blocks if the AI included them
-    const cleanJson = resultRaw.replace(/```json\n?/, "").replace(/\n?```/, "").trim()
+Please resolve the following ambiguous links from the request above again.
+"selectedPath" must be exactly one of the given "candidates", or null if none is appropriate.
 
-    const result = JSON.parse(cleanJson)
-    const resultMap = new Map<string, string>()
+${RESPONSE_FORMAT}
 
-    if (result.results && Array.isArray(result.results)) {
-        for (const item of result.results) {
-            if (item.selectedPath) {
-                resultMap.set(item.word, item.selectedPath)
-            }
+Input data:
+${JSON.stringify(requests, null, 2)}
+`
+
+/**
+ * Splits requests into batches whose serialized input stays within `maxChars`,
+ * keeping their order. A request larger than the budget gets a batch of its own.
+ */
+export const splitAIResolveRequests = (
+    requests: AIResolveRequest[],
+    maxChars: number,
+): AIResolveRequest[][] => {
+    const batches: AIResolveRequest[][] = []
+    let batch: AIResolveRequest[] = []
+    let batchChars = 0
+
+    for (const request of requests) {
+        const requestChars = JSON.stringify(request, null, 2).length
+        if (batch.length > 0 && batchChars + requestChars > maxChars) {
+            batches.push(batch)
+            batch = []
+            batchChars = 0
+        }
+        batch.push(request)
+        batchChars += requestChars
+    }
+    if (batch.length > 0) {
+        batches.push(batch)
+    }
+    return batches
+}
+
+/**
+ * Resolves the requests, retrying invalid ones with a repair prompt sent after the
+ * earlier prompts and the invalid replies. Returns the chosen
+ * path of every answered request, or null when the AI found no candidate appropriate;
+ * requests still invalid after the retries are left out.
+ */
+export const resolveAmbiguitiesBatch = async (
+    settings: AutomaticLinkerSettings,
+    requests: AIResolveRequest[],
+): Promise<Map<number, string | null>> => {
+    const answers = new Map<number, string | null>()
+    const history: AIChatMessage[] = []
+    let pending = requests
+    let prompt = buildResolvePrompt(pending)
+
+    for (let attempt = 0; pending.length > 0 && attempt <= settings.aiMaxRetries; attempt++) {
+        const raw = await callAI(settings, prompt, history)
+        const reply = parseAIResolveReply(raw, pending)
+        reply.answers.forEach((path, id) => answers.set(id, path))
+        pending = pending.filter(request => !answers.has(request.id))
+        if (pending.length > 0) {
+            console.warn("AI Link Enhancer: Invalid reply:", reply.errors)
+            history.push({ role: "user", content: prompt }, { role: "assistant", content: raw })
+            prompt = buildRepairPrompt(pending, reply.errors)
         }
     }
 
-    return resultMap
+    if (pending.length > 0) {
+        console.warn(
+            "AI Link Enhancer: Giving up on unresolved words:",
+            pending.map(request => request.word),
+        )
+    }
+
+    return answers
 }
@@ -0,0 +1,7 @@
+export type AIProviderKind = "openai-compatible" | "ollama" | "llama-cpp"
+
+export const AI_PROVIDER_NAMES: Record<AIProviderKind, string> = {
+    "openai-compatible": "OpenAI-compatible",
+    "ollama": "Ollama",
+    "llama-cpp": "llama.cpp server",
+}
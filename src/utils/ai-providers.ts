@@ -0,0 +1,183 @@
+import { requestUrl } from "obsidian"
+import { AI_PROVIDER_NAMES, AIProviderKind } from "./ai-provider-kinds"
+
+export interface AIChatMessage {
+    role: "system" | "user" | "assistant"
+    content: string
+}
+
+export interface AIProvider {
+    kind: AIProviderKind
+    // Sends the conversation and resolves with the reply text
+    chat: (messages: AIChatMessage[]) => Promise<string>
+    // Resolves with the models the server can run
+    listModels: () => Promise<string[]>
+}
+
+export interface AIProviderSettings {
+    aiProvider: AIProviderKind
+    aiEndpoint: string
+    aiModel: string
+    aiApiKey: string
+    aiExtraHeaders: Record<string, string>
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value)
+
+/**
+ * Validates the raw value of the "aiExtraHeaders" setting.
+ * Returns an empty list when every header is usable.
+ */
+export const validateAIExtraHeaders = (value: unknown): string[] => {
+    if (!isPlainObject(value)) {
+        return ["Extra headers must be an object of header names to values"]
+    }
+
+    return Object.entries(value).flatMap(([name, headerValue]) => {
+        const errors: string[] = []
+        if (!/^[!#$%&'*+.^_`|~\w-]+$/.test(name)) {
+            errors.push(`"${name}" is not a valid header name`)
+        }
+        if (typeof headerValue !== "string") {
+            errors.push(`"${name}": value must be a string`)
+        }
+        return errors
+    })
+}
+
+const joinUrl = (endpoint: string, path: string): string =>
+    `${endpoint.replace(/\/+$/, "")}${path}`
+
+const requestJson = async (
+    kind: AIProviderKind,
+    url: string,
+    headers: Record<string, string>,
+    body?: unknown,
+): Promise<unknown> => {
+    const response = await requestUrl({
+        url,
+        method: body === undefined ? "GET" : "POST",
+        headers: body === undefined
+            ? headers
+            : { "Content-Type": "application/json", ...headers },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        throw: false,
+    })
+    if (response.status >= 400) {
+        throw new Error(`${AI_PROVIDER_NAMES[kind]} returned HTTP ${response.status} for ${url}`)
+    }
+    return JSON.parse(response.text)
+}
+
+const getString = (value: unknown, kind: AIProviderKind, field: string): string => {
+    if (typeof value !== "string") {
+        throw new Error(`${AI_PROVIDER_NAMES[kind]} response has no ${field}`)
+    }
+    return value
+}
+
+const getOpenAIReply = (data: unknown, kind: AIProviderKind): string => {
+    const choices = isPlainObject(data) && Array.isArray(data.choices) ? data.choices : []
+    const message: unknown = isPlainObject(choices[0]) ? choices[0].message : undefined
+    return getString(isPlainObject(message) ? message.content : undefined, kind, "message content")
+}
+
+const getOpenAIModels = (data: unknown): string[] => {
+    const models = isPlainObject(data) && Array.isArray(data.data) ? data.data : []
+    return models.flatMap((model: unknown) =>
+        isPlainObject(model) && typeof model.id === "string" ? [model.id] : [],
+    )
+}
+
+const getAuthHeaders = (settings: AIProviderSettings): Record<string, string> => ({
+    ...(settings.aiApiKey ? { Authorization: `Bearer ${settings.aiApiKey}` } : {}),
+    ...settings.aiExtraHeaders,
+})
+
+/**
+ * Chat completions of OpenAI-compatible servers (LM Studio, vLLM, gateways),
+ * where the endpoint already includes the API version (e.g. "http://localhost:1234/v1").
+ */
+export const createOpenAICompatibleProvider = (settings: AIProviderSettings): AIProvider => {
+    const kind = "openai-compatible"
+    const headers = getAuthHeaders(settings)
+
+    return {
+        kind,
+        chat: async (messages) => {
+            const data = await requestJson(kind, joinUrl(settings.aiEndpoint, "/chat/completions"), headers, {
+                model: settings.aiModel,
+                messages,
+                // Some local servers fail with response_format, so we rely on the prompt instructions
+                temperature: 0,
+            })
+            return getOpenAIReply(data, kind)
+        },
+        listModels: async () =>
+            getOpenAIModels(await requestJson(kind, joinUrl(settings.aiEndpoint, "/models"), headers)),
+    }
+}
+
+/**
+ * Ollama's native API, where the endpoint is the server root (e.g. "http://localhost:11434").
+ */
+export const createOllamaProvider = (settings: AIProviderSettings): AIProvider => {
+    const kind = "ollama"
+    const headers = getAuthHeaders(settings)
+
+    return {
+        kind,
+        chat: async (messages) => {
+            const data = await requestJson(kind, joinUrl(settings.aiEndpoint, "/api/chat"), headers, {
+                model: settings.aiModel,
+                messages,
+                stream: false,
+                options: { temperature: 0 },
+            })
+            const message = isPlainObject(data) ? data.message : undefined
+            return getString(isPlainObject(message) ? message.content : undefined, kind, "message content")
+        },
+        listModels: async () => {
+            const data = await requestJson(kind, joinUrl(settings.aiEndpoint, "/api/tags"), headers)
+            const models = isPlainObject(data) && Array.isArray(data.models) ? data.models : []
+            return models.flatMap((model: unknown) =>
+                isPlainObject(model) && typeof model.name === "string" ? [model.name] : [],
+            )
+        },
+    }
+}
+
+/**
+ * A llama.cpp server, where the endpoint is the server root (e.g. "http://localhost:8080").
+ * The server runs the model it was started with, so the model name is only sent when set.
+ */
+export const createLlamaCppProvider = (settings: AIProviderSettings): AIProvider => {
+    const kind = "llama-cpp"
+    const headers = getAuthHeaders(settings)
+
+    return {
+        kind,
+        chat: async (messages) => {
+            const data = await requestJson(kind, joinUrl(settings.aiEndpoint, "/v1/chat/completions"), headers, {
+                ...(settings.aiModel ? { model: settings.aiModel } : {}),
+                messages,
+                temperature: 0,
+            })
+            return getOpenAIReply(data, kind)
+        },
+        listModels: async () =>
+            getOpenAIModels(await requestJson(kind, joinUrl(settings.aiEndpoint, "/v1/models"), headers)),
+    }
+}
+
+export const createAIProvider = (settings: AIProviderSettings): AIProvider => {
+    switch (settings.aiProvider) {
+        case "ollama":
+            return createOllamaProvider(settings)
+        case "llama-cpp":
+            return createLlamaCppProvider(settings)
+        default:
+            return createOpenAICompatibleProvider(settings)
+    }
+}
@@ -0,0 +1,12 @@
+/**
+ * Returns a short, stable, non-cryptographic hash (32-bit FNV-1a plus length)
+ * suitable for detecting content changes.
+ */
+export const hashString = (text: string): string => {
+    let hash = 0x811c9dc5
+    for (let index = 0; index < text.length; index++) {
+        hash ^= text.charCodeAt(index)
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return `${text.length.toString(36)}-${(hash >>> 0).toString(36)}`
+}
@@ -0,0 +1,40 @@
+/**
+ * Minimal subset of Obsidian's DataAdapter used to persist plugin data files.
+ */
+export interface JsonDataAdapter {
+    exists(path: string): Promise<boolean>
+    read(path: string): Promise<string>
+    write(path: string, data: string): Promise<void>
+}
+
+export interface JsonDataStore<T> {
+    load(): Promise<T>
+    save(value: T): Promise<void>
+}
+
+/**
+ * Creates a store backed by a JSON file (usually inside the plugin folder).
+ * Missing or unreadable files fall back to `createDefault()`.
+ */
+export const createJsonDataStore = <T>(
+    adapter: JsonDataAdapter,
+    path: string,
+    createDefault: () => T,
+): JsonDataStore<T> => ({
+    load: async () => {
+        if (!(await adapter.exists(path))) {
+            return createDefault()
+        }
+
+        try {
+            return JSON.parse(await adapter.read(path)) as T
+        }
+        catch (error) {
+            console.warn(`Automatic Linker: Failed to read ${path}`, error)
+            return createDefault()
+        }
+    },
+    save: async (value) => {
+        await adapter.write(path, JSON.stringify(value))
+    },
+})
@@ -1,11 +1,50 @@
 import { CandidateData, TrieNode } from "../trie"
 import { AutomaticLinkerSettings } from "../settings/settings-info"
-import { resolveAmbiguitiesBatch, AIResolveRequest } from "./ai-client"
+import { resolveAmbiguitiesBatch, AIResolveRequest, splitAIResolveRequests } from "./ai-client"
+import { hashString } from "./hash"
 import {
     getOccurrenceContext,
     scanCandidateOccurrences,
 } from "../replace-links/candidate-scanner"
 
+/**
+ * AI decisions keyed by `hashAIResolveRequest`: the chosen path, or null when no
+ * candidate was appropriate.
+ */
+export type AIDecisions = Record<string, string | null>
+
+export interface ResolveAmbiguitiesOptions {
+    // Stops before the next batch; results of finished batches are still returned
+    signal?: AbortSignal
+    // Called with the number of finished batches, starting at 0
+    onProgress?: (completed: number, total: number) => void
+    // Decisions of an earlier run; matching occurrences are not sent to the AI again
+    cachedDecisions?: AIDecisions
+    // Called for every occurrence decided in this run, cached or not
+    onDecision?: (key: string, path: string | null) => void
+}
+
+/**
+ * Identifies an occurrence by what the AI sees (word, context and candidates) rather
+ * than its offset, so decisions survive edits elsewhere in the note.
+ */
+export const hashAIResolveRequest = ({ word, text, candidates }: AIResolveRequest): string =>
+    hashString(JSON.stringify([word, text, candidates]))
+
+const waitForAbort = (signal: AbortSignal): Promise<null> =>
+    new Promise((resolve) => {
+        if (signal.aborted) {
+            resolve(null)
+            return
+        }
+        signal.addEventListener("abort", () => resolve(null), { once: true })
+    })
+
+/**
+ * Asks the AI to pick a target for every ambiguous occurrence in the text, each with
+ * its own context, in batches sized by "aiBatchMaxChars". Resolutions are keyed by the
+ * occurrence's offset in the NFC-normalized text, as `replaceLinks` expects.
+ */
 export const resolveAmbiguities = async (
     text: string,
     candidateMap: Map<string, CandidateData>,
@@ -13,7 +52,10 @@ export const resolveAmbiguities = async (
     settings: AutomaticLinkerSettings,
     filePath = "",
     baseDir?: string,
-): Promise<Map<string, string>> => {
+    { signal, onProgress, cachedDecisions = {}, onDecision }: ResolveAmbiguitiesOptions = {},
+): Promise<Map<number, string>> => {
+    // replaceLinks works on NFC text, so offsets must be taken from the same form
+    text = text.normalize("NFC")
     const scannerSettings = baseDir === undefined
         ? settings
         : { ...settings, baseDir }
@@ -28,12 +70,48 @@ export const resolveAmbiguities = async (
     const requests: AIResolveRequest[] = occurrences
         .filter(occurrence => occurrence.candidateData.candidates.length > 1)
         .map(occurrence => ({
+            id: occurrence.start,
             word: occurrence.text,
             text: getOccurrenceContext(text, occurrence, settings.aiMaxContext),
             candidates: occurrence.candidateData.candidates.map(c => c.canonical),
         }))
 
-    const uniqueRequests = Array.from(new Map(requests.map(r => [r.word, r])).values())
+    const resolved = new Map<number, string>()
+    const requestKeys = new Map<number, string>()
+    const uncachedRequests: AIResolveRequest[] = []
+    for (const request of requests) {
+        const key = hashAIResolveRequest(request)
+        requestKeys.set(request.id, key)
+        if (!(key in cachedDecisions)) {
+            uncachedRequests.push(request)
+            continue
+        }
+        const path = cachedDecisions[key]
+        if (path) resolved.set(request.id, path)
+        onDecision?.(key, path)
+    }
+
+    const batches = splitAIResolveRequests(uncachedRequests, settings.aiBatchMaxChars)
+    const aborted = signal ? waitForAbort(signal) : null
+    onProgress?.(0, batches.length)
+
+    for (const [index, batch] of batches.entries()) {
+        if (signal?.aborted) break
+        // A running request cannot be stopped, so cancelling stops waiting for it
+        const batchResult = await (aborted
+            ? Promise.race([resolveAmbiguitiesBatch(settings, batch), aborted])
+            : resolveAmbiguitiesBatch(settings, batch))
+        if (!batchResult) break
+
+        batchResult.forEach((path, id) => {
+            // Ignore decisions for occurrences that were never asked about
+            const key = requestKeys.get(id)
+            if (key === undefined) return
+            if (path) resolved.set(id, path)
+            onDecision?.(key, path)
+        })
+        onProgress?.(index + 1, batches.length)
+    }
 
-    return await resolveAmbiguitiesBatch(settings, uniqueRequests)
+    return resolved
 }
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest"
+import {
+    createFormatJournalEntry,
+    revertFormatJournalEntry,
+} from "../format-journal"
+
+describe("format journal", () => {
+    const original = "---\ntags: [a]\n---\nI use TypeScript and Python.\n"
+    const formatted = "---\ntags: [a]\n---\nI use [[TypeScript]] and [[Python]].\n"
+
+    it("restores the original content of an untouched file", () => {
+        const entry = createFormatJournalEntry("note.md", original, formatted)
+
+        expect(revertFormatJournalEntry(entry, formatted)).toEqual({
+            status: "reverted",
+            content: original,
+        })
+    })
+
+    it("skips files modified after the formatting run", () => {
+        const entry = createFormatJournalEntry("note.md", original, formatted)
+
+        expect(revertFormatJournalEntry(entry, formatted + "New line\n")).toEqual({
+            status: "modified",
+        })
+    })
+})
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest"
+import {
+    collapseDiffContext,
+    diffLines,
+    summarizeDiff,
+} from "../vault-format-diff"
+
+describe("diffLines", () => {
+    it("reports changed lines as a deletion followed by an insertion", () => {
+        const lines = diffLines(
+            "intro\nI use TypeScript\noutro\n",
+            "intro\nI use [[TypeScript]]\noutro\n",
+        )
+
+        expect(lines).toEqual([
+            { type: "context", text: "intro" },
+            { type: "delete", text: "I use TypeScript" },
+            { type: "insert", text: "I use [[TypeScript]]" },
+            { type: "context", text: "outro" },
+        ])
+        expect(summarizeDiff(lines)).toEqual({ insertedLines: 1, deletedLines: 1 })
+    })
+
+    it("returns only context lines for identical content", () => {
+        expect(diffLines("a\nb", "a\nb")).toEqual([
+            { type: "context", text: "a" },
+            { type: "context", text: "b" },
+        ])
+    })
+})
+
+describe("collapseDiffContext", () => {
+    it("keeps context around changes and collapses the rest", () => {
+        const lines = diffLines(
+            "1\n2\n3\n4\n5\n6\n7\n",
+            "1\n2\n3\nfour\n5\n6\n7\n",
+        )
+
+        expect(collapseDiffContext(lines, 1)).toEqual([
+            { type: "skip", text: "…" },
+            { type: "context", text: "3" },
+            { type: "delete", text: "4" },
+            { type: "insert", text: "four" },
+            { type: "context", text: "5" },
+            { type: "skip", text: "…" },
+        ])
+    })
+})
@@ -0,0 +1,55 @@
+import DiffMatchPatch from "diff-match-patch"
+import { hashString } from "../utils/hash"
+
+export interface FormatJournalEntry {
+    path: string
+    // Patch that turns the formatted content back into the original content
+    reversePatch: string
+    formattedHash: string
+}
+
+export interface FormatJournal {
+    createdAt: number
+    entries: FormatJournalEntry[]
+}
+
+export type FormatJournalRevertResult
+    = | { status: "reverted", content: string }
+        | { status: "modified" }
+        | { status: "failed" }
+
+export const createFormatJournalEntry = (
+    path: string,
+    original: string,
+    formatted: string,
+): FormatJournalEntry => {
+    const dmp = new DiffMatchPatch.diff_match_patch()
+    return {
+        path,
+        reversePatch: dmp.patch_toText(dmp.patch_make(formatted, original)),
+        formattedHash: hashString(formatted),
+    }
+}
+
+/**
+ * Restores the original content of a journaled file.
+ * Files edited after the formatting run are reported as "modified" and left alone.
+ */
+export const revertFormatJournalEntry = (
+    entry: FormatJournalEntry,
+    currentContent: string,
+): FormatJournalRevertResult => {
+    if (hashString(currentContent) !== entry.formattedHash) {
+        return { status: "modified" }
+    }
+
+    const dmp = new DiffMatchPatch.diff_match_patch()
+    const [content, results] = dmp.patch_apply(
+        dmp.patch_fromText(entry.reversePatch),
+        currentContent,
+    )
+    if (results.some(applied => !applied)) {
+        return { status: "failed" }
+    }
+    return { status: "reverted", content }
+}
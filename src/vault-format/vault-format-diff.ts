@@ -0,0 +1,84 @@
+import DiffMatchPatch from "diff-match-patch"
+
+export interface FileFormatChange {
+    path: string
+    before: string
+    after: string
+}
+
+export type DiffLineType = "context" | "insert" | "delete" | "skip"
+
+export interface DiffLine {
+    type: DiffLineType
+    text: string
+}
+
+export interface DiffSummary {
+    insertedLines: number
+    deletedLines: number
+}
+
+const splitDiffText = (text: string): string[] => {
+    const lines = text.split("\n")
+    // A trailing newline terminates the last line rather than starting a new one
+    if (lines[lines.length - 1] === "") {
+        lines.pop()
+    }
+    return lines
+}
+
+/**
+ * Computes a line-based diff between two versions of a file.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+    const dmp = new DiffMatchPatch.diff_match_patch()
+    const { chars1, chars2, lineArray } = dmp.diff_linesToChars_(before, after)
+    const diffs = dmp.diff_main(chars1, chars2, false)
+    dmp.diff_charsToLines_(diffs, lineArray)
+
+    const lines: DiffLine[] = []
+    for (const [operation, text] of diffs) {
+        const type: DiffLineType = operation === DiffMatchPatch.DIFF_INSERT
+            ? "insert"
+            : operation === DiffMatchPatch.DIFF_DELETE ? "delete" : "context"
+        for (const line of splitDiffText(text)) {
+            lines.push({ type, text: line })
+        }
+    }
+    return lines
+}
+
+/**
+ * Keeps changed lines plus `contextLines` of surrounding context, replacing
+ * each run of omitted lines with a single "skip" marker.
+ */
+export const collapseDiffContext = (
+    lines: DiffLine[],
+    contextLines = 1,
+): DiffLine[] => {
+    const keep = lines.map(() => false)
+    lines.forEach((line, index) => {
+        if (line.type === "context") return
+        const from = Math.max(0, index - contextLines)
+        const to = Math.min(lines.length - 1, index + contextLines)
+        for (let i = from; i <= to; i++) {
+            keep[i] = true
+        }
+    })
+
+    const collapsed: DiffLine[] = []
+    lines.forEach((line, index) => {
+        if (keep[index]) {
+            collapsed.push(line)
+        }
+        else if (collapsed[collapsed.length - 1]?.type !== "skip") {
+            collapsed.push({ type: "skip", text: "…" })
+        }
+    })
+    return collapsed
+}
+
+export const summarizeDiff = (lines: DiffLine[]): DiffSummary => ({
+    insertedLines: lines.filter(line => line.type === "insert").length,
+    deletedLines: lines.filter(line => line.type === "delete").length,
+})
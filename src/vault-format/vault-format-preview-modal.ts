@@ -0,0 +1,128 @@
+import { App, ButtonComponent, Modal, Setting } from "obsidian"
+import {
+    collapseDiffContext,
+    diffLines,
+    FileFormatChange,
+    summarizeDiff,
+} from "./vault-format-diff"
+
+/**
+ * Shows the per-file diffs of a dry-run "Format vault" and lets the user pick
+ * which files to rewrite.
+ */
+export class VaultFormatPreviewModal extends Modal {
+    private changes: FileFormatChange[]
+    private selectedPaths: Set<string>
+    private onApply: (paths: string[]) => void
+    private checkboxes = new Map<string, HTMLInputElement>()
+    private selectionSetting: Setting | null = null
+    private applyButton: ButtonComponent | null = null
+
+    constructor(
+        app: App,
+        changes: FileFormatChange[],
+        onApply: (paths: string[]) => void,
+    ) {
+        super(app)
+        this.changes = changes
+        this.selectedPaths = new Set(changes.map(change => change.path))
+        this.onApply = onApply
+    }
+
+    onOpen() {
+        this.setTitle(`Format vault preview (${this.changes.length} files)`)
+        this.render()
+    }
+
+    onClose() {
+        this.contentEl.empty()
+        this.checkboxes.clear()
+    }
+
+    /**
+     * Builds the list once; selection changes only update the checkboxes and buttons,
+     * so the diffs are not computed again.
+     */
+    private render() {
+        const { contentEl } = this
+        contentEl.empty()
+        contentEl.addClass("automatic-linker-vault-preview")
+
+        this.selectionSetting = new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText("Select all")
+                .onClick(() => {
+                    this.selectedPaths = new Set(this.changes.map(change => change.path))
+                    this.updateSelection()
+                }))
+            .addButton(button => button
+                .setButtonText("Select none")
+                .onClick(() => {
+                    this.selectedPaths.clear()
+                    this.updateSelection()
+                }))
+
+        const list = contentEl.createDiv({ cls: "automatic-linker-vault-preview-list" })
+        for (const change of this.changes) {
+            this.renderChange(list, change)
+        }
+
+        const footer = contentEl.createDiv({ cls: "modal-button-container" })
+        this.applyButton = new ButtonComponent(footer)
+            .setCta()
+            .onClick(() => {
+                this.onApply(this.changes
+                    .map(change => change.path)
+                    .filter(path => this.selectedPaths.has(path)))
+                this.close()
+            })
+        new ButtonComponent(footer)
+            .setButtonText("Cancel")
+            .onClick(() => this.close())
+
+        this.updateSelection()
+    }
+
+    private updateSelection() {
+        for (const [path, checkbox] of this.checkboxes) {
+            checkbox.checked = this.selectedPaths.has(path)
+        }
+        this.selectionSetting?.setDesc(`${this.selectedPaths.size} of ${this.changes.length} files selected.`)
+        this.applyButton
+            ?.setButtonText(`Apply to ${this.selectedPaths.size} files`)
+            .setDisabled(this.selectedPaths.size === 0)
+    }
+
+    private renderChange(list: HTMLElement, change: FileFormatChange) {
+        const lines = diffLines(change.before, change.after)
+        const { insertedLines, deletedLines } = summarizeDiff(lines)
+
+        const details = list.createEl("details", { cls: "automatic-linker-vault-preview-file" })
+        const summary = details.createEl("summary")
+        const checkbox = summary.createEl("input", { type: "checkbox" })
+        this.checkboxes.set(change.path, checkbox)
+        checkbox.addEventListener("click", event => event.stopPropagation())
+        checkbox.addEventListener("change", () => {
+            if (checkbox.checked) {
+                this.selectedPaths.add(change.path)
+            }
+            else {
+                this.selectedPaths.delete(change.path)
+            }
+            this.updateSelection()
+        })
+        summary.createSpan({ text: change.path })
+        summary.createSpan({
+            cls: "automatic-linker-vault-preview-stats",
+            text: `+${insertedLines} −${deletedLines}`,
+        })
+
+        const diff = details.createDiv({ cls: "automatic-linker-vault-preview-diff" })
+        for (const line of collapseDiffContext(lines)) {
+            diff.createDiv({
+                cls: `automatic-linker-diff-line is-${line.type}`,
+                text: line.text,
+            })
+        }
+    }
+}